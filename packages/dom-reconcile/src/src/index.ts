@@ -1,2 +1,4 @@
 export { default, default as stws, default as reconcile } from './reconcile'
+export { default as patch } from './patch'
+export type { PatchOp } from './patch'
 export type DomReconcileAlgorithm = typeof import('./reconcile').default
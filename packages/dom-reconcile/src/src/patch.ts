@@ -0,0 +1,50 @@
+export type PatchOp =
+  | { type: 'splice'; index: number; remove: number; items: Node[] }
+  | { type: 'move'; from: number; to: number }
+
+/**
+ * Patch
+ *
+ * Apply recorded list operations (i.e. from reactive array, mapped by mapArray) directly to DOM
+ * nodes, instead of diffing lists - it's O(changes) instead of O(n).
+ *
+ * Operations are replayed on copy of current list first and the result is compared with next
+ * list - when it's not the same (some operations are missing, or mapped items aren't single DOM
+ * nodes), DOM isn't touched and false is returned, so lists have to be reconciled instead.
+ *
+ * @param parent {Node} - array's parent DOM Node
+ * @param current {Node[]} - current list - memoized array of nodes from previous iteration
+ * @param next {Node[]} - next list - new nodes to process
+ * @param ops {PatchOp[]} - operations transforming current list to next list
+ * @returns {boolean} - true, if DOM was patched
+ */
+export default function patch(parent: Node, current: Node[], next: Node[], ops: PatchOp[]): boolean {
+  // 1. Replay operations on current list copy and check the result
+  let nodes = current.slice(),
+    i: number,
+    op: PatchOp
+  for (i = 0; i < ops.length; i++) apply(nodes, ops[i])
+  if (nodes.length !== next.length) return false
+  for (i = 0; i < nodes.length; i++) if (nodes[i] !== next[i]) return false
+  // 2. Replay operations on DOM - node after the list is stable target for inserts at the end
+  const end = current.length > 0 ? current[current.length - 1].nextSibling : null
+  nodes = current.slice()
+  for (i = 0; i < ops.length; i++) {
+    op = ops[i]
+    if (op.type === 'move') {
+      apply(nodes, op)
+      parent.insertBefore(nodes[op.to], nodes[op.to + 1] || end)
+    } else {
+      for (let j = op.index; j < op.index + op.remove; j++) parent.removeChild(nodes[j])
+      apply(nodes, op)
+      const target = nodes[op.index + op.items.length] || end
+      for (let j = 0; j < op.items.length; j++) parent.insertBefore(op.items[j], target)
+    }
+  }
+  return true
+}
+
+function apply(nodes: Node[], op: PatchOp): void {
+  if (op.type === 'move') nodes.splice(op.to, 0, nodes.splice(op.from, 1)[0])
+  else nodes.splice(op.index, op.remove, ...op.items)
+}
@@ -0,0 +1,104 @@
+import type { ArrayOp, ArrayOpsCursor, Readable, ReactiveArray } from './types'
+import { observable } from './observable'
+
+/* ************************************************************************ *
+ * Reactive Array                                                           *
+ * ************************************************************************ *
+ * - array source, that's mutated in place and recording every mutation in  *
+ *   operations log - so mapped lists could apply the recorded operations,  *
+ *   instead of diffing the whole array (O(changes) instead of O(n))        *
+ * - log is versioned and consumers are reading operations since their own *
+ *   version (cursor) - so it works for any number of mapped lists          *
+ * - log is trimmed, when it's longer than the array - then consumers that  *
+ *   haven't read trimmed operations are just diffing the array again       *
+ * ************************************************************************ */
+
+export const $OPS = Symbol('array-ops')
+
+interface ArrayOpsLog<T> {
+    base: number // version of the first operation in log
+    version: number // version after the last operation
+    ops: ArrayOp<T>[]
+}
+
+const MIN_LOG_SIZE = 64
+
+/**
+ * Reactive Array
+ *
+ * Create array source with mutation methods, that are notifying observers and recording
+ * operations for mapArray/indexArray and DOM reconcile - reading returns the same array,
+ * mutated in place
+ * @param initial - initial items
+ */
+export function reactiveArray<T>(initial: T[] = []): ReactiveArray<T> {
+    const items = initial.slice(),
+        log: ArrayOpsLog<T> = { base: 0, version: 0, ops: [] },
+        node = observable<T[]>(items, false)
+    Object.defineProperty(items, $OPS, { value: log })
+
+    const record = (op: ArrayOp<T>) => {
+        if (log.ops.length >= Math.max(MIN_LOG_SIZE, items.length)) {
+            log.base = log.version
+            log.ops = []
+        }
+        log.ops.push(op)
+        log.version++
+        node(items)
+    }
+
+    const array = (() => node()) as Readable<readonly T[]> as ReactiveArray<T>
+    array.push = (...values: T[]) => {
+        if (values.length > 0) {
+            const index = items.length
+            items.push(...values)
+            record({ type: 'splice', index, remove: 0, items: values })
+        }
+        return items.length
+    }
+    array.splice = (start: number, deleteCount: number = items.length - start, ...values: T[]) => {
+        const index = start < 0 ? Math.max(items.length + start, 0) : Math.min(start, items.length),
+            removed = items.splice(index, deleteCount, ...values)
+        if (removed.length > 0 || values.length > 0) {
+            record({ type: 'splice', index, remove: removed.length, items: values })
+        }
+        return removed
+    }
+    array.move = (from: number, to: number) => {
+        if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return
+        items.splice(to, 0, items.splice(from, 1)[0])
+        record({ type: 'move', from, to })
+    }
+    array.set = (index: number, item: T) => {
+        // like array index assignment, but without holes - it could only append the next item
+        if (index < 0 || index > items.length || !Number.isInteger(index)) {
+            throw new RangeError(`Index ${index} is out of reactive array range 0..${items.length}`)
+        }
+        if (index === items.length) array.push(item)
+        else if (items[index] !== item) {
+            items[index] = item
+            record({ type: 'set', index, item })
+        }
+    }
+    return array
+}
+
+/**
+ * Ops Since
+ *
+ * Get operations recorded on reactive array since the cursor version and move cursor to the
+ * actual version - returns null, when operations aren't available (it's not reactive array,
+ * cursor is reading other array or log was trimmed) and the array has to be diffed
+ * @param array - array read from reactive array (or any other array)
+ * @param cursor - consumer cursor
+ */
+export function opsSince<T>(array: readonly T[], cursor: ArrayOpsCursor): ArrayOp<T>[] | null {
+    const log = (array as any)[$OPS] as ArrayOpsLog<T> | undefined
+    let ops: ArrayOp<T>[] | null = null
+    if (log !== undefined && cursor.log === log && cursor.version >= log.base) {
+        ops = log.ops.slice(cursor.version - log.base)
+    }
+    cursor.log = log || null
+    cursor.version = log ? log.version : 0
+    return ops
+}
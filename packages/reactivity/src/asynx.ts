@@ -1,86 +1,200 @@
 import {
     batch,
     cleanup,
+    root,
     signal,
     observer,
     effect,
     renderEffect,
     getOwner,
+    getTransaction,
     SuspenseContext,
     SUSPENSE,
     SuspensionSignal,
-    handleError
+    handleError,
+    observable,
+    untrack
 } from './observable'
-import {Observable, Readable} from "./types";
+import {
+    AsynxCatch,
+    AsynxLane,
+    AsynxPipeline,
+    AsynxRetry,
+    AsynxStep,
+    AsynxStepContext,
+    AsynxStepOptions,
+    Observable,
+    RateLimited,
+    RateLimitOptions,
+    Readable
+} from "./types";
 import {lookup} from "./utils";
+import {hold, ObservableHold} from "./hold";
+import {AsynxHost, environmentHost, IdleDeadline, TimerHandle} from "./host";
+
+let $$Host: AsynxHost = environmentHost
+
+/* ************************************************************************ *
+ * Timeline Scheduler                                                       *
+ * ************************************************************************ *
+ * - timers are grouped in buckets by due time, rounded up to the end of    *
+ *   coalescing window - timers due in the same window are run together,    *
+ *   in single batch, and never earlier than their due time                 *
+ * - due times of buckets are kept in binary min-heap, so scheduling and    *
+ *   finding the next check are O(log n) - buckets emptied by cancelled     *
+ *   timers are removed from heap lazily                                    *
+ * - single host timer is set for the earliest bucket                       *
+ * ************************************************************************ */
+
+const DEFAULT_TIMELINE_WINDOW = 1
+
+type TimelineTask = { callback: () => void }
+
+class DueTimeHeap {
+    private readonly items: number[] = []
+
+    get size(): number {
+        return this.items.length
+    }
+
+    peek(): number | undefined {
+        return this.items[0]
+    }
+
+    push(time: number): void {
+        const items = this.items
+        let index = items.push(time) - 1
+        while (index > 0) {
+            const parent = (index - 1) >> 1
+            if (items[parent] <= time) break
+            items[index] = items[parent]
+            index = parent
+        }
+        items[index] = time
+    }
+
+    pop(): number | undefined {
+        const items = this.items,
+            top = items[0],
+            last = items.pop()
+        if (items.length > 0 && last !== undefined) {
+            let index = 0
+            for (;;) {
+                const left = 2 * index + 1,
+                    right = left + 1
+                let child = left
+                if (left >= items.length) break
+                if (right < items.length && items[right] < items[left]) child = right
+                if (items[child] >= last) break
+                items[index] = items[child]
+                index = child
+            }
+            items[index] = last
+        }
+        return top
+    }
+
+    clear(): void {
+        this.items.length = 0
+    }
+}
 
 class TimelineScheduler {
-    private tasks = new Map<number, Array<() => void>>();
+    private tasks = new Map<number, Set<TimelineTask>>();
+    private heap = new DueTimeHeap();
+    public window = DEFAULT_TIMELINE_WINDOW;
     public nextCheck: number | null = null;
-    private timeoutId: number | null = null;
+    private timeoutId: TimerHandle | null = null;
 
     schedule(delay: number, callback: () => void): () => void {
-        const time = performance.now() + delay;
-        if (!this.tasks.has(time)) {
-            this.tasks.set(time, []);
+        const time = this.dueTime($$Host.now() + delay),
+            task = { callback };
+        let bucket = this.tasks.get(time);
+        if (!bucket) {
+            this.tasks.set(time, (bucket = new Set()));
+            this.heap.push(time);
         }
-        this.tasks.get(time)!.push(callback);
+        bucket.add(task);
 
-        this.rescheduleCheck();
+        if (this.nextCheck === null || time < this.nextCheck) this.rescheduleCheck();
 
         return () => {
             const callbacks = this.tasks.get(time);
-            if (callbacks) {
-                const index = callbacks.indexOf(callback);
-                if (index !== -1) callbacks.splice(index, 1);
-                if (callbacks.length === 0) this.tasks.delete(time);
-            }
-
-            if (this.nextCheck === time) {
-                this.rescheduleCheck();
+            if (callbacks && callbacks.delete(task) && callbacks.size === 0) {
+                this.tasks.delete(time);
+                if (this.nextCheck === time) this.rescheduleCheck();
             }
         };
     }
 
     rescheduleCheck() {
-        if (this.tasks.size === 0) {
-            if (this.timeoutId !== null) {
-                clearTimeout(this.timeoutId);
-                this.timeoutId = null;
-            }
-            this.nextCheck = null;
+        const earliestTime = this.earliest();
+
+        if (earliestTime === undefined) {
+            this.reset();
             return;
         }
 
-        const earliestTime = Math.min(...this.tasks.keys());
-
         if (this.nextCheck === earliestTime) return;
 
         if (this.timeoutId !== null) {
-            clearTimeout(this.timeoutId);
+            $$Host.clearTimeout(this.timeoutId);
         }
 
-        const now = performance.now();
+        const now = $$Host.now();
         const waitTime = Math.max(0, earliestTime - now);
 
-        this.timeoutId = window.setTimeout(() => {
-            this.executeTasks(earliestTime);
+        this.timeoutId = $$Host.setTimeout(() => {
+            this.timeoutId = null;
+            this.nextCheck = null;
+            this.executeTasks(Math.max(earliestTime, $$Host.now()));
             this.rescheduleCheck();
         }, waitTime);
 
         this.nextCheck = earliestTime;
     }
 
+    reset() {
+        if (this.timeoutId !== null) {
+            $$Host.clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+        this.nextCheck = null;
+    }
+
+    /**
+     * Run all the buckets due until the time, in single batch - timers scheduled by them are
+     * run in next check, even when they're already due
+     */
     executeTasks(time: number) {
-        const callbacks = this.tasks.get(time);
-        if (callbacks) {
-            this.tasks.delete(time);
-            batch(() => {
-                for (const callback of callbacks) {
-                    callback();
+        const due: Set<TimelineTask>[] = [];
+        for (let next = this.earliest(); next !== undefined && next <= time; next = this.earliest()) {
+            this.heap.pop();
+            due.push(this.tasks.get(next)!);
+            this.tasks.delete(next);
+        }
+        if (due.length === 0) return;
+        batch(() => {
+            for (const bucket of due) {
+                for (const task of bucket) {
+                    task.callback();
                 }
-            });
+            }
+        });
+    }
+
+    private dueTime(time: number): number {
+        return this.window > 0 ? Math.ceil(time / this.window) * this.window : time;
+    }
+
+    // Earliest due time with scheduled tasks - buckets emptied by cancellations are dropped from heap
+    private earliest(): number | undefined {
+        let time = this.heap.peek();
+        while (time !== undefined && !this.tasks.has(time)) {
+            this.heap.pop();
+            time = this.heap.peek();
         }
+        return time;
     }
 }
 
@@ -128,7 +242,7 @@ class AsapQueue {
 
         if (checkTimeline && timeline.nextCheck) {
             // check if there are some items scheduled for now
-            if (timeline.nextCheck - performance.now() <= 0) {
+            if (timeline.nextCheck - $$Host.now() <= 0) {
                 timeline.executeTasks(timeline.nextCheck)
                 timeline.rescheduleCheck()
             }
@@ -145,8 +259,6 @@ let $$Running = false,
     $$Tick = 0,
     $$Frame = 0
 
-const Resolved = Promise.resolve()
-
 const $$Queue = new AsapQueue(() => $$Tick)
 const $$Frames = new AsapQueue(() => $$Frame)
 
@@ -161,7 +273,7 @@ const scheduleTick = () => {
     if (!$$Scheduled) {
         $$Scheduled = true
         $$Tick++
-        Resolved.then(() => {
+        $$Host.queueMicrotask(() => {
             if (!$$Scheduled) return
             runMicroQueue()
         })
@@ -171,7 +283,7 @@ const scheduleTick = () => {
 const scheduleFrame = () => {
     if (!$$ScheduledFrame) {
         $$ScheduledFrame = true
-        $$Frame = window.requestAnimationFrame(() => {
+        $$Frame = $$Host.requestFrame(() => {
             $$ScheduledFrame = false
             $$RunningFrame = true
             batch(() => $$Frames.run())
@@ -190,7 +302,10 @@ export const frame = (action: AsapAction): Dispose => {
     scheduleFrame()
     const id = $$Frames.add(action)
     return () => {
-        if ($$Frames.remove(id) === 0) window.cancelAnimationFrame($$Frame)
+        if ($$Frames.remove(id) === 0) {
+            $$Host.cancelFrame($$Frame)
+            $$ScheduledFrame = false
+        }
     }
 }
 
@@ -210,150 +325,424 @@ export const interval = (timeout: number, action: AsapAction) => {
     return () => dispose()
 }
 
-type AsynxSource = 'asap' | 'frame' | number | (() => any);
-type AsynxAction<T = void, R = void> = (value?: T) => R;
+/* ************************************************************************ *
+ * Priority Lanes                                                           *
+ * ************************************************************************ *
+ * - `immediate` work is run in AsynX tick (micro-queue), other lanes are   *
+ *   run in host timer slices, limited by frame budget - after the budget,  *
+ *   slice yields to the host and the next one is scheduled                 *
+ * - before every task, the highest non-empty lane is picked, so work in    *
+ *   lower lane yields to the higher lanes, also when it's added later      *
+ * - `idle` lane is run in idle callbacks, or in time-sliced fallback, and  *
+ *   only when higher lanes are empty                                       *
+ * - every slice is run in single batch                                     *
+ * ************************************************************************ */
+
+const DEFAULT_FRAME_BUDGET = 5,
+    LANES: AsynxLane[] = ['userBlocking', 'normal', 'idle']
+
+type LaneTask = { action: AsapAction | null }
+
+class LaneScheduler {
+    private readonly queues: LaneTask[][] = [[], [], []];
+    public budget = DEFAULT_FRAME_BUDGET;
+    private slice: TimerHandle | null = null;
+    private idle: TimerHandle | null = null;
+    private idleCallback = false;
+
+    add(lane: AsynxLane, action: AsapAction): Dispose {
+        const task: LaneTask = { action };
+        this.queues[LANES.indexOf(lane)].push(task);
+        this.schedule();
+        return () => {
+            task.action = null;
+        };
+    }
+
+    schedule() {
+        if (this.pending(1)) {
+            if (this.slice === null) this.slice = $$Host.setTimeout(() => this.runSlice(), 0);
+        } else if (this.pending(2) && this.idle === null) {
+            const host = $$Host;
+            this.idleCallback = host.requestIdle !== undefined;
+            this.idle = host.requestIdle
+                ? host.requestIdle(deadline => this.runIdle(deadline))
+                : host.setTimeout(() => this.runIdle(null), 0);
+        }
+    }
+
+    /**
+     * Cancel slices scheduled on the host - they're scheduled again on the next host
+     */
+    detach(host: AsynxHost) {
+        if (this.slice !== null) host.clearTimeout(this.slice);
+        if (this.idle !== null) {
+            if (this.idleCallback && host.cancelIdle) host.cancelIdle(this.idle);
+            else host.clearTimeout(this.idle);
+        }
+        this.slice = this.idle = null;
+    }
+
+    private runSlice() {
+        this.slice = null;
+        const deadline = $$Host.now() + this.budget;
+        // remaining tasks are scheduled also when a task throws - its error is thrown to the host after that
+        try {
+            batch(() => {
+                let task: LaneTask | null;
+                while ((task = this.take(1)) !== null) {
+                    task.action!();
+                    if ($$Host.now() >= deadline) break;
+                }
+            });
+        } finally {
+            this.schedule();
+        }
+    }
+
+    private runIdle(deadline: IdleDeadline | null) {
+        this.idle = null;
+        const end = $$Host.now() + this.budget,
+            remaining = deadline ? () => deadline.timeRemaining() > 0 : () => $$Host.now() < end;
+        try {
+            batch(() => {
+                let task: LaneTask | null;
+                // idle work yields, when higher lane work is added
+                while (!this.pending(1) && (task = this.take(2)) !== null) {
+                    task.action!();
+                    if (!remaining()) break;
+                }
+            });
+        } finally {
+            this.schedule();
+        }
+    }
+
+    // Check if any lane up to `lowest` has tasks - cancelled tasks are dropped from queue heads
+    private pending(lowest: number): boolean {
+        for (let i = 0; i <= lowest; ++i) {
+            const queue = this.queues[i];
+            while (queue.length > 0 && queue[0].action === null) queue.shift();
+            if (queue.length > 0) return true;
+        }
+        return false;
+    }
+
+    // Take the first task from the highest non-empty lane, up to `lowest`
+    private take(lowest: number): LaneTask | null {
+        for (let i = 0; i <= lowest; ++i) {
+            const queue = this.queues[i];
+            let task: LaneTask | undefined;
+            while ((task = queue.shift()) !== undefined) {
+                if (task.action !== null) return task;
+            }
+        }
+        return null;
+    }
+}
+
+const lanes = new LaneScheduler();
+
+/**
+ * Lane
+ *
+ * Schedule action in priority lane - `immediate` (AsynX tick), `userBlocking`, `normal` or `idle`.
+ * Work in lower lanes yields to higher lanes and is limited by frame budget
+ * @param priority - lane
+ * @param action - action to run
+ * @returns dispose, cancelling the action
+ */
+export const lane = (priority: AsynxLane, action: AsapAction): Dispose =>
+    priority === 'immediate' ? tick(action) : lanes.add(priority, action)
+
+/**
+ * Set Frame Budget
+ *
+ * Set time (ms) of single lanes slice - after the budget, lanes work yields to the host
+ * @param budget - slice time
+ * @returns previous budget
+ */
+export const setFrameBudget = (budget: number): number => {
+    const prev = lanes.budget
+    lanes.budget = budget
+    return prev
+}
+
+/**
+ * Set AsynX Host
+ *
+ * Replace clock, timers and frames used by AsynX scheduler - i.e. with virtual host
+ * in tests. Pending timeline check and frame are moved to the new host (timeline
+ * tasks are keeping their due times, so hosts should use the same clock).
+ * @param host - next host
+ * @returns previous host
+ */
+export const setAsynxHost = (host: AsynxHost): AsynxHost => {
+    const prev = $$Host
+    timeline.reset()
+    lanes.detach(prev)
+    if ($$ScheduledFrame) prev.cancelFrame($$Frame)
+    $$Host = host
+    timeline.rescheduleCheck()
+    lanes.schedule()
+    if ($$ScheduledFrame) {
+        $$ScheduledFrame = false
+        scheduleFrame()
+    }
+    return prev
+}
+
+export const getAsynxHost = (): AsynxHost => $$Host
+
+/**
+ * Set Timeline Window
+ *
+ * Set coalescing window (ms) of AsynX timeline - timers due in the same window are run together,
+ * in single batch, at the end of the window. Already scheduled timers are keeping their due times.
+ * @param window - window length, 0 to run every timer at its exact due time
+ * @returns previous window
+ */
+export const setTimelineWindow = (window: number): number => {
+    const prev = timeline.window
+    timeline.window = window
+    return prev
+}
+
+type AsynxSource = 'asap' | 'frame' | AsynxLane | number | (() => any);
+type AsynxAction<T = void, R = void> = (value: T | undefined, context: AsynxStepContext) => R;
 type AsynxLock = Observable<any>[]
 type AsynxActionTuple<T = void, R = void> = [AsynxAction<T, R>, AsynxLock]
-type AsynxActionOrTuple<T = void, R = void> = AsynxAction<T, R> | AsynxActionTuple<T, R>
+type AsynxActionOrTuple<T = void, R = void> =
+    | AsynxAction<T, R>
+    | AsynxActionTuple<T, R>
+    | AsynxStep<T, R>
+    | AsynxCatch<any, R>
+
+/**
+ * AsynX Timeout Error
+ *
+ * Error of pipeline step, that hasn't settled its result in the step timeout
+ */
+export class AsynxTimeoutError extends Error {
+    readonly timeout: number
+
+    constructor(timeout: number) {
+        super(`AsynX step timed out after ${timeout}ms`)
+        this.name = 'AsynxTimeoutError'
+        this.timeout = timeout
+    }
+}
+
+function toStep(action: AsynxActionOrTuple<any, any>): AsynxStep<any, any> | AsynxCatch<any, any> {
+    if (typeof action === 'function') return { action }
+    if (Array.isArray(action)) return { action: action[0], lock: action[1] }
+    return action
+}
+
+function isLane(source: AsynxSource): source is AsynxLane {
+    return source === 'immediate' || source === 'userBlocking' || source === 'normal' || source === 'idle'
+}
 
-function getInternalSource(obs: Observable<any>) {
-    return obs.__src__;
+function isCatch(step: AsynxStep<any, any> | AsynxCatch<any, any>): step is AsynxCatch<any, any> {
+    return 'catch' in step
 }
 
 function scheduleAsynx<T, R>(
     source: AsynxSource,
     actions: AsynxActionOrTuple<T, any>[],
-    initialValue?: T
+    initialValue?: T,
+    owner = getOwner()
 ): Dispose {
-    const disposes = [] as Dispose[]
+    // errors are handled in the scope, where pipeline was created - actions are run without Owner
+    if (actions.length === 0) return () => {}
+    const steps = actions.map(toStep),
+        controller = new AbortController(),
+        signal = controller.signal,
+        holds: (ObservableHold<any> | null)[] = [],
+        disposes = new Set<Dispose>(),
+        // pipeline scheduled in transaction is joining it, until it's completed or disposed
+        transaction = getTransaction()
+    let joined = transaction !== null,
+        // signal of the running step attempt - it's aborted, when the attempt is timed out, failed
+        // or the pipeline is disposed, but not when it's completed, so its result is still readable
+        attemptController: AbortController | null = null
+    if (transaction !== null) transaction.join()
+
+    const abortAttempt = () => {
+        if (attemptController !== null) {
+            attemptController.abort()
+            attemptController = null
+        }
+    }
 
-    const lockDeps = (lock: AsynxLock) => {
-        // Lock observables
-        lock.forEach(obs => {
-            const source = getInternalSource(obs);
-            source.lock();
-        });
+    const leave = (completed: boolean) => {
+        if (joined) {
+            joined = false
+            transaction!.leave(completed)
+        }
+    }
 
-        // Cleanup function
-        return () => {
-            lock.forEach(obs => {
-                const source = getInternalSource(obs);
-                source.unlock();
-            });
-        };
+    // Step is locked from its scheduling, until it's settled - also during its retries
+    const lockStep = (index: number) => {
+        const step = steps[index]
+        if (step && !isCatch(step) && step.lock && !holds[index]) {
+            holds[index] = hold(step.lock, undefined, { name: `asynx step ${index}` }) as ObservableHold<any>
+        }
+    }
+
+    const unlockStep = (index: number) => {
+        const held = holds[index]
+        if (held) {
+            holds[index] = null
+            held.release()
+        }
     }
 
-    // Execute the next action in the pipeline
-    const executeNext = (action: AsynxAction<T, R>, value: T, lockCleanup: () => void) => {
+    // Index of the next step of the regular flow - catch steps are skipped
+    const nextStep = (from: number) => {
+        while (from < steps.length && isCatch(steps[from])) from++
+        return from
+    }
+
+    const nextCatch = (from: number) => {
+        while (from < steps.length && !isCatch(steps[from])) from++
+        return from
+    }
+
+    // Schedule callback, that is dropped when the pipeline is disposed
+    const defer = (schedule: (action: AsapAction) => Dispose, action: AsapAction) => {
+        const dispose = schedule(() => {
+            disposes.delete(dispose)
+            action()
+        })
+        disposes.add(dispose)
+        return dispose
+    }
+
+    // Promise results are synchronized with other micro-queue tasks
+    const resume = (action: AsapAction) => {
+        if ($$Scheduled) {
+            $$Queue.add(action)
+            runMicroQueue()
+        } else action()
+    }
+
+    const run = (index: number, value: unknown, attempt: number) => {
+        if (signal.aborted) return
+        if (index >= steps.length) return leave(true)
+        const step = steps[index],
+            context = { signal: (attemptController = new AbortController()).signal, attempt }
+        let result: unknown
         try {
-            const result = action(value);
-            lockCleanup();
-            const nextSource = () => result;
-            const newDispose = scheduleAsynx<T, any>(nextSource, actions);
-            disposes.push(newDispose);
+            const held = holds[index],
+                invoke = () => isCatch(step)
+                    ? step.catch(value, context)
+                    : held
+                    ? held.run(() => step.action(value, context))
+                    : step.action(value, context)
+            result = transaction !== null ? transaction.run(invoke) : invoke()
         } catch (error) {
-            console.error('AsynX pipeline error:', error);
-            handleError(error)
-            lockCleanup();
+            return fail(index, value, attempt, error)
         }
-    };
-
-    let action = actions.shift()
-    if (!action) return () => {}
+        const next = nextStep(index + 1)
+        lockStep(next)
+        if (!(result instanceof Promise)) {
+            attemptController = null
+            unlockStep(index)
+            if (next < steps.length) defer(tick, () => run(next, result, 1))
+            else leave(true)
+            return
+        }
+        const timeout = isCatch(step) ? undefined : step.timeout
+        let settled = false,
+            clearTimeout = () => {}
+        if (timeout !== undefined) {
+            clearTimeout = defer(action => delayed(timeout, action), () => {
+                if (settled) return
+                settled = true
+                fail(index, value, attempt, new AsynxTimeoutError(timeout))
+            })
+        }
+        result.then(
+            resolved => {
+                if (settled || signal.aborted) return
+                settled = true
+                clearTimeout()
+                attemptController = null
+                unlockStep(index)
+                resume(() => run(next, resolved, 1))
+            },
+            error => {
+                if (settled || signal.aborted) return
+                settled = true
+                clearTimeout()
+                fail(index, value, attempt, error)
+            }
+        )
+    }
 
-    let cleanup: () => void;
-    if (Array.isArray(action)) {
-        cleanup = lockDeps(action[1])
-        action = action[0]
-    } else {
-        cleanup = () => {}
+    // Retry failed step or pass the error to the next catch step - source errors have index -1
+    const fail = (index: number, value: unknown, attempt: number, error: unknown) => {
+        if (signal.aborted) return
+        abortAttempt()
+        const step = steps[index],
+            retry = step && !isCatch(step) ? step.retry : undefined
+        if (retry && attempt < retry.attempts) {
+            const backoff = typeof retry.backoff === 'function' ? retry.backoff(attempt) : retry.backoff || 0
+            defer(action => delayed(backoff, action), () => run(index, value, attempt + 1))
+            return
+        }
+        for (let i = Math.max(index, 0); i < steps.length; ++i) unlockStep(i)
+        // writes of the whole transaction are rolled back, before the error is handled
+        if (transaction !== null) transaction.rollback()
+        const handler = nextCatch(index + 1)
+        if (handler < steps.length) {
+            defer(tick, () => run(handler, error, 1))
+        } else {
+            leave(false)
+            handleError(error, owner)
+        }
     }
 
+    const first = nextStep(0)
+    lockStep(first)
 
     // Schedule based on source type
     if (source === 'asap') {
-        const dispose = tick(() => {
-            try {
-                executeNext(action, initialValue as T, cleanup);
-            } catch (error) {
-                console.error('AsynX pipeline error:', error);
-                handleError(error);
-                cleanup();
-            }
-        });
-
-        disposes.push(dispose);
+        defer(tick, () => run(first, initialValue, 1))
     }
     else if (source === 'frame') {
-        const dispose = frame(() => {
-            try {
-                executeNext(action, initialValue as T, cleanup);
-            } catch (error) {
-                console.error('AsynX pipeline error:', error);
-                handleError(error);
-                cleanup();
-            }
-        });
-        disposes.push(dispose);
+        defer(frame, () => run(first, initialValue, 1))
+    }
+    else if (isLane(source)) {
+        defer(action => lane(source, action), () => run(first, initialValue, 1))
     }
     else if (typeof source === 'number') {
-        const dispose = delayed(source, () => {
-            try {
-                executeNext(action, initialValue as T, cleanup);
-            } catch (error) {
-                console.error('AsynX pipeline error:', error);
-                handleError(error);
-                cleanup();
-            }
-        });
-        disposes.push(dispose);
+        defer(action => delayed(source, action), () => run(first, initialValue, 1))
     }
     else if (typeof source === 'function') {
         const srcResult = source();
         if (srcResult instanceof Promise) {
-            srcResult.then(result => {
-                if ($$Scheduled) {
-                    $$Queue.add(() => {
-                        try {
-                            executeNext(action, result as T, cleanup);
-                        } catch (error) {
-                            console.error('AsynX pipeline error:', error);
-                            handleError(error);
-                            cleanup();
-                        }
-                    })
-                    runMicroQueue()
-                } else {
-                    try {
-                        executeNext(action, result as T, cleanup);
-                    } catch (error) {
-                        console.error('AsynX pipeline error:', error);
-                        handleError(error);
-                        cleanup();
-                    }
-                }
-            })
+            srcResult.then(
+                result => signal.aborted || resume(() => run(first, result, 1)),
+                error => fail(-1, undefined, 0, error)
+            )
         } else {
-            const dispose = tick(() => {
-                try {
-                    executeNext(action, srcResult as T, cleanup);
-                } catch (error) {
-                    console.error('AsynX pipeline error:', error);
-                    handleError(error);
-                    cleanup();
-                }
-            });
-            disposes.push(dispose);
+            defer(tick, () => run(first, srcResult, 1))
         }
     } else {
         throw new Error('Invalid asynx source');
     }
 
     return () => {
-        cleanup();
-        disposes.forEach((dispose) => dispose());
+        // in-flight actions are aborted and their results are dropped
+        controller.abort()
+        abortAttempt()
+        for (let i = 0; i < steps.length; ++i) unlockStep(i)
+        disposes.forEach(dispose => dispose())
+        disposes.clear()
+        leave(false)
     }
-
 }
 
 function createAsynxLazy<T = void, R = void>() {
@@ -401,7 +790,7 @@ const awaitAsynx = <T = void, R = void>(
 
     const [finalResult, setFinalResult] = signal<R | Waiting>(WAITING)
 
-    actions.push(value => setFinalResult(value as R))
+    actions.push((value: unknown) => setFinalResult(value as R))
 
     const dispose = scheduleAsynx(source as AsynxSource, actions, initialValue);
 
@@ -409,6 +798,129 @@ const awaitAsynx = <T = void, R = void>(
     return finalResult;
 }
 
+/**
+ * Pipeline
+ *
+ * Typed builder of AsynX pipelines - `pipeline.from(source)` accepts the same sources as asynx(),
+ * and every step output type flows into the next step:
+ * `pipeline.from(fetchUser).step(normalize).lock([user]).frame(render).catch(fallback).run()`
+ */
+export const pipeline = {
+    from: pipelineFrom
+}
+
+function pipelineFrom<T>(source: () => T): AsynxPipeline<Awaited<T>>;
+function pipelineFrom(source?: 'asap' | 'frame' | AsynxLane | number): AsynxPipeline<undefined>;
+function pipelineFrom<T>(source: 'asap' | 'frame' | AsynxLane | number, initialValue: T): AsynxPipeline<T>;
+function pipelineFrom(source: AsynxSource = 'asap', initialValue?: unknown): AsynxPipeline<any> {
+    return new PipelineBuilder(source, initialValue, [])
+}
+
+type PipelineStep = AsynxStep<any, any> | AsynxCatch<any, any>
+
+class PipelineBuilder<T> implements AsynxPipeline<T> {
+    private readonly source: AsynxSource
+    private readonly initialValue: unknown
+    private readonly steps: readonly PipelineStep[]
+
+    constructor(source: AsynxSource, initialValue: unknown, steps: readonly PipelineStep[]) {
+        this.source = source
+        this.initialValue = initialValue
+        this.steps = steps
+    }
+
+    step<R>(action: (value: T, context: AsynxStepContext) => R, options?: AsynxStepOptions): AsynxPipeline<Awaited<R>> {
+        return this.add({ ...options, action })
+    }
+
+    frame<R>(action: (value: T, context: AsynxStepContext) => R, options?: AsynxStepOptions): AsynxPipeline<Awaited<R>> {
+        // step result is settled in the frame batch - the next step is resumed in the micro-queue
+        return this.add({
+            ...options,
+            action: (value: T, context: AsynxStepContext) =>
+                new Promise<R>((resolve, reject) => {
+                    const { signal } = context
+                    const dispose = frame(() => {
+                        signal.removeEventListener('abort', dispose)
+                        try {
+                            resolve(action(value, context))
+                        } catch (error) {
+                            reject(error)
+                        }
+                    })
+                    signal.addEventListener('abort', dispose, { once: true })
+                })
+        })
+    }
+
+    delay(ms: number): AsynxPipeline<T> {
+        return this.add({
+            action: (value: T, context: AsynxStepContext) =>
+                new Promise<T>(resolve => {
+                    const { signal } = context
+                    const dispose = delayed(ms, () => {
+                        signal.removeEventListener('abort', dispose)
+                        resolve(value)
+                    })
+                    signal.addEventListener('abort', dispose, { once: true })
+                })
+        })
+    }
+
+    lock(observables: Observable<any>[]): AsynxPipeline<T> {
+        return this.modify({ lock: observables })
+    }
+
+    retry(retry: AsynxRetry): AsynxPipeline<T> {
+        return this.modify({ retry })
+    }
+
+    timeout(ms: number): AsynxPipeline<T> {
+        return this.modify({ timeout: ms })
+    }
+
+    catch<R, E = Error>(fallback: (error: E, context: AsynxStepContext) => R): AsynxPipeline<T | Awaited<R>> {
+        return this.add({ catch: fallback })
+    }
+
+    run(): Dispose {
+        return scheduleAsynx<any, any>(this.source, [...this.steps], this.initialValue)
+    }
+
+    toReadable(): Readable<T | Waiting> {
+        const [result, setResult] = signal<T | Waiting>(WAITING)
+        const dispose = scheduleAsynx<any, any>(
+            this.source,
+            [...this.steps, (value?: T) => setResult(() => value as T)],
+            this.initialValue
+        )
+        cleanup(dispose)
+        return result
+    }
+
+    toPromise(): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            // the last catch step is rejecting with errors, that weren't caught by the pipeline
+            const dispose = scheduleAsynx<any, any>(
+                this.source,
+                [...this.steps, (value?: T) => resolve(value as T), { catch: reject }],
+                this.initialValue
+            )
+            if (getOwner() !== null) cleanup(dispose)
+        })
+    }
+
+    private add<R>(step: PipelineStep): PipelineBuilder<R> {
+        return new PipelineBuilder<R>(this.source, this.initialValue, [...this.steps, step])
+    }
+
+    private modify(options: Partial<AsynxStep<any, any>>): PipelineBuilder<T> {
+        const last = this.steps[this.steps.length - 1]
+        if (!last || isCatch(last)) throw new Error('Pipeline modifier should follow a step')
+        return new PipelineBuilder<T>(this.source, this.initialValue, [...this.steps.slice(0, -1), { ...last, ...options }])
+    }
+}
+
 export const asynxObserver = <T, E = void>(on: Readable<T | Waiting>, fn: (awaited: T, acc?: E) => E, initialValue?: E) => {
     return observer((prev?: E) => {
         const awaited = on();
@@ -457,3 +969,111 @@ export const suspendedAsynx = <T>(
     throw new SuspensionSignal();
 }
 
+/**
+ * Debounced
+ *
+ * Readable following the source, that's updated after the source hasn't changed for `ms` - every
+ * change restarts the timer. Timer runs on AsynX timeline, so updates due together are batched.
+ * @param source - readable to debounce
+ * @param ms - quiet time
+ * @param options - `leading` (update on the first change, default false) and `trailing` (update
+ * with the last value, when the timer ends, default true)
+ */
+export const debounced = <T>(source: Readable<T>, ms: number, options: RateLimitOptions = {}): RateLimited<T> =>
+    rateLimited(source, ms, options.leading ?? false, options.trailing ?? true, true, false)
+
+/**
+ * Throttled
+ *
+ * Readable following the source, that's updated at most once per `ms` - the last value of the
+ * window is written at its end, and it starts the next window
+ * @param source - readable to throttle
+ * @param ms - window length
+ * @param options - `leading` (update on the first change of the window, default true) and
+ * `trailing` (update with the last value, at the end of window, default true)
+ */
+export const throttled = <T>(source: Readable<T>, ms: number, options: RateLimitOptions = {}): RateLimited<T> =>
+    rateLimited(source, ms, options.leading ?? true, options.trailing ?? true, false, true)
+
+/**
+ * Audit
+ *
+ * Readable following the source, that's updated `ms` after the first change - with the last value
+ * of that time. Unlike throttled, the next window is started by the next change
+ * @param source - readable to audit
+ * @param ms - window length
+ * @param options - `leading` (update on the first change, default false) and `trailing` (update
+ * with the last value, at the end of window, default true)
+ */
+export const audit = <T>(source: Readable<T>, ms: number, options: RateLimitOptions = {}): RateLimited<T> =>
+    rateLimited(source, ms, options.leading ?? false, options.trailing ?? true, false, false)
+
+function rateLimited<T>(
+    source: Readable<T>,
+    ms: number,
+    leading: boolean,
+    trailing: boolean,
+    restart: boolean,
+    repeat: boolean
+): RateLimited<T> {
+    const value = observable<T>(untrack(source))
+    let timer: Dispose | null = null,
+        pending = false,
+        next: T,
+        initialized = false
+
+    const write = (v: T) => {
+        pending = false
+        value(() => v)
+    }
+
+    const start = () => {
+        timer = timeline.schedule(ms, () => {
+            timer = null
+            if (trailing && pending) {
+                write(next)
+                // throttle window is started again by trailing update
+                if (repeat) start()
+            }
+            pending = false
+        })
+    }
+
+    // source observer is disposed with the owner, together with pending timer
+    const disconnect = root(dispose => {
+        observer(() => {
+            const v = source()
+            if (!initialized) {
+                initialized = true
+                return
+            }
+            next = v
+            pending = true
+            if (timer === null) {
+                if (leading) write(v)
+                start()
+            } else if (restart) {
+                timer()
+                start()
+            }
+        })
+        return dispose
+    })
+
+    if (getOwner() !== null) {
+        cleanup(() => {
+            if (timer !== null) timer()
+            timer = null
+            pending = false
+            disconnect()
+        })
+    }
+
+    const read = (() => value()) as RateLimited<T>
+    read.flush = () => {
+        if (timer !== null) timer()
+        timer = null
+        if (pending) write(next)
+    }
+    return read
+}
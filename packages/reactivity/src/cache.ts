@@ -0,0 +1,218 @@
+import type { Observable, ResourceCache, ResourceCacheOptions, ResourceKey } from './types'
+import { batch, observable } from './observable'
+import { delayed, getAsynxHost, tick } from './asynx'
+import { isFunction } from './utils'
+
+/* ************************************************************************ *
+ * Resource Cache                                                           *
+ * ************************************************************************ *
+ * - entries are shared by resources using the same cache and key, so the   *
+ *   same input is fetched once - in-flight request is deduplicated         *
+ * - fresh values (younger than staleTime) aren't re-fetched, stale ones    *
+ *   are rendered while they're revalidated in background                   *
+ * - entry values are updated synchronously, but their observables are      *
+ *   written in AsynX tick - so all the entries resolved, invalidated or    *
+ *   mutated in the same tick are updating the UI in single batch           *
+ * - entries unused for cacheTime are removed on AsynX timeline             *
+ * ************************************************************************ */
+
+const DEFAULT_STALE_TIME = 0,
+    DEFAULT_CACHE_TIME = 5 * 60 * 1000
+
+/**
+ * Create Resource Cache
+ *
+ * Create cache shared by resources created with `cache` option - resources with the same key
+ * are sharing their value and in-flight request
+ * @param options - default staleTime and cacheTime of cached resources
+ */
+export function createResourceCache(options: ResourceCacheOptions = {}): ResourceCache {
+    return new KeyedCache(options)
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+export class CacheEntry<T> {
+    readonly key: ResourceKey
+    value: T | undefined
+    error: Error | null
+    loading: boolean
+    readonly data: Observable<T | undefined>
+    readonly errorNode: Observable<Error | null>
+    readonly loadingNode: Observable<boolean>
+    // time of the last load or mutation, -Infinity when it's not loaded or it's invalidated
+    updatedAt: number
+    promise: Promise<T> | null
+    // incremented on every request and mutation, so results of superseded requests are dropped
+    version: number
+    // the last request, replayed on revalidation
+    request: (() => Promise<T>) | null
+    users: number
+    gc: (() => void) | null
+
+    constructor(key: ResourceKey) {
+        this.key = key
+        this.value = undefined
+        this.error = null
+        this.loading = false
+        this.data = observable<T | undefined>(undefined)
+        this.errorNode = observable<Error | null>(null)
+        this.loadingNode = observable(false)
+        this.updatedAt = -Infinity
+        this.promise = null
+        this.version = 0
+        this.request = null
+        this.users = 0
+        this.gc = null
+    }
+}
+
+export class KeyedCache implements ResourceCache {
+    readonly staleTime: number
+    readonly cacheTime: number
+    private readonly entries: Map<string, CacheEntry<any>>
+    private readonly dirty: Set<CacheEntry<any>>
+    private scheduled: boolean
+
+    constructor(options: ResourceCacheOptions) {
+        this.staleTime = options.staleTime ?? DEFAULT_STALE_TIME
+        this.cacheTime = options.cacheTime ?? DEFAULT_CACHE_TIME
+        this.entries = new Map()
+        this.dirty = new Set()
+        this.scheduled = false
+    }
+
+    get<T>(key: ResourceKey): T | undefined {
+        const entry = this.entries.get(hashKey(key)) as CacheEntry<T> | undefined
+        return entry && entry.data()
+    }
+
+    invalidate(keyPrefix: ResourceKey = []): void {
+        const prefix = keyPrefix.length > 0 ? hashKey(keyPrefix).slice(0, -1) : null
+        this.entries.forEach((entry, hash) => {
+            // prefix is compared on key JSON without the closing bracket
+            if (prefix !== null && hash !== prefix + ']' && !hash.startsWith(prefix + ',')) return
+            entry.updatedAt = -Infinity
+            // failed revalidation is reported by the entry error
+            if (entry.users > 0 && entry.request !== null) this.revalidate(entry).catch(() => {})
+        })
+    }
+
+    mutate<T>(key: ResourceKey, value: T | ((prev: T | undefined) => T)): void {
+        const entry = this.entry<T>(key)
+        entry.version++
+        entry.promise = null
+        entry.value = isFunction(value) ? value(entry.value) : value
+        entry.error = null
+        entry.loading = false
+        entry.updatedAt = getAsynxHost().now()
+        if (entry.users === 0 && entry.gc === null) this.collect(entry, this.cacheTime)
+        this.schedule(entry)
+    }
+
+    entry<T>(key: ResourceKey): CacheEntry<T> {
+        const hash = hashKey(key)
+        let entry = this.entries.get(hash)
+        if (!entry) this.entries.set(hash, (entry = new CacheEntry<T>(key)))
+        return entry
+    }
+
+    /**
+     * Fetch
+     *
+     * Return in-flight request of the entry, resolved fresh value or start new request
+     */
+    fetch<T>(entry: CacheEntry<T>, request: () => Promise<T>, staleTime: number = this.staleTime): Promise<T> {
+        entry.request = request
+        if (entry.promise !== null) return entry.promise
+        if (this.isFresh(entry, staleTime)) return Promise.resolve(entry.value as T)
+        return this.revalidate(entry)
+    }
+
+    isFresh(entry: CacheEntry<any>, staleTime: number = this.staleTime): boolean {
+        return getAsynxHost().now() - entry.updatedAt < staleTime
+    }
+
+    retain(entry: CacheEntry<any>): void {
+        entry.users++
+        if (entry.gc !== null) {
+            entry.gc()
+            entry.gc = null
+        }
+    }
+
+    release(entry: CacheEntry<any>, cacheTime: number = this.cacheTime): void {
+        if (--entry.users === 0) this.collect(entry, cacheTime)
+    }
+
+    private revalidate<T>(entry: CacheEntry<T>): Promise<T> {
+        const run = ++entry.version,
+            current = () => run === entry.version
+        entry.loading = true
+        this.schedule(entry)
+        const promise = entry.request!().then(
+            value => {
+                if (current()) {
+                    entry.value = value
+                    entry.error = null
+                    entry.updatedAt = getAsynxHost().now()
+                    this.settle(entry)
+                }
+                return value
+            },
+            err => {
+                if (current()) {
+                    entry.error = err instanceof Error ? err : new Error(String(err))
+                    this.settle(entry)
+                }
+                throw err
+            }
+        )
+        entry.promise = promise
+        return promise
+    }
+
+    private settle(entry: CacheEntry<any>): void {
+        entry.promise = null
+        entry.loading = false
+        this.schedule(entry)
+    }
+
+    private collect(entry: CacheEntry<any>, cacheTime: number): void {
+        const hash = hashKey(entry.key)
+        entry.gc = delayed(cacheTime, () => {
+            entry.gc = null
+            if (entry.users === 0 && this.entries.get(hash) === entry) this.entries.delete(hash)
+        })
+    }
+
+    private schedule(entry: CacheEntry<any>): void {
+        this.dirty.add(entry)
+        if (!this.scheduled) {
+            this.scheduled = true
+            tick(() => this.flush())
+        }
+    }
+
+    private flush(): void {
+        const dirty = [...this.dirty]
+        this.dirty.clear()
+        this.scheduled = false
+        batch(() => {
+            for (let i = 0; i < dirty.length; ++i) {
+                const entry = dirty[i]
+                entry.data(() => entry.value)
+                entry.errorNode(entry.error)
+                entry.loadingNode(entry.loading)
+            }
+        })
+    }
+}
+
+function hashKey(key: ResourceKey): string {
+    return JSON.stringify(key)
+}
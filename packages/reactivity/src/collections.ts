@@ -0,0 +1,316 @@
+import type { Observable } from './types'
+import { batch, isListening, observable } from './observable'
+
+/* ************************************************************************ *
+ * Reactive Collections                                                     *
+ * ************************************************************************ *
+ * - Map and Set implementations, that are tracking reads separately - per  *
+ *   key (get/has), size and iteration - so write is waking only observers  *
+ *   of the changed entry, instead of all readers of the whole collection   *
+ * - per-key nodes are created lazily, only on tracked read - like in      *
+ *   store, untracked reads are just plain collection reads - and they're   *
+ *   removed, when their last observer is disconnected                      *
+ * - every write is notifying its nodes in single batch                     *
+ * ************************************************************************ */
+
+/**
+ * Reactive Map
+ *
+ * Create Map, that's tracking `get(key)`/`has(key)` per key, and `size` and iteration separately
+ * @param entries - initial entries
+ */
+export function reactiveMap<K, V>(entries?: Iterable<readonly [K, V]> | null): Map<K, V> {
+    return new ReactiveMap(entries)
+}
+
+/**
+ * Reactive Set
+ *
+ * Create Set, that's tracking `has(value)` per value, and `size` and iteration separately
+ * @param values - initial values
+ */
+export function reactiveSet<T>(values?: Iterable<T> | null): Set<T> {
+    return new ReactiveSet(values)
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+class KeyNodes<K> {
+    private readonly nodes: Map<K, Observable<undefined>>
+    private readonly sizeNode: Observable<number>
+    private readonly iterNode: Observable<undefined>
+
+    constructor(size: number) {
+        this.nodes = new Map()
+        this.sizeNode = observable(size)
+        this.iterNode = observable<undefined>(undefined, false)
+    }
+
+    track(key: K) {
+        if (isListening()) {
+            let node = this.nodes.get(key)
+            if (!node) {
+                const created = observable<undefined>(undefined, {
+                    equals: false,
+                    onUnobserved: () => {
+                        if (this.nodes.get(key) === created) this.nodes.delete(key)
+                    }
+                })
+                this.nodes.set(key, (node = created))
+            }
+            node()
+        }
+    }
+
+    trackSize() {
+        this.sizeNode()
+    }
+
+    trackIteration() {
+        this.iterNode()
+    }
+
+    notify(keys: K[], size: number) {
+        batch(() => {
+            let node: Observable<undefined> | undefined
+            for (let i = 0; i < keys.length; i++) {
+                if ((node = this.nodes.get(keys[i]))) node(undefined)
+            }
+            this.sizeNode(size)
+            this.iterNode(undefined)
+        })
+    }
+}
+
+class ReactiveMap<K, V> implements Map<K, V> {
+    readonly [Symbol.toStringTag] = 'Map'
+    private readonly map: Map<K, V>
+    private readonly keyNodes: KeyNodes<K>
+
+    constructor(entries?: Iterable<readonly [K, V]> | null) {
+        this.map = new Map(entries)
+        this.keyNodes = new KeyNodes(this.map.size)
+    }
+
+    get size() {
+        this.keyNodes.trackSize()
+        return this.map.size
+    }
+
+    get(key: K) {
+        this.keyNodes.track(key)
+        return this.map.get(key)
+    }
+
+    has(key: K) {
+        this.keyNodes.track(key)
+        return this.map.has(key)
+    }
+
+    set(key: K, value: V) {
+        const map = this.map
+        if (!map.has(key) || map.get(key) !== value) {
+            map.set(key, value)
+            this.keyNodes.notify([key], map.size)
+        }
+        return this
+    }
+
+    delete(key: K) {
+        if (!this.map.delete(key)) return false
+        this.keyNodes.notify([key], this.map.size)
+        return true
+    }
+
+    clear() {
+        if (this.map.size === 0) return
+        const keys = [...this.map.keys()]
+        this.map.clear()
+        this.keyNodes.notify(keys, 0)
+    }
+
+    forEach(fn: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any) {
+        this.keyNodes.trackIteration()
+        this.map.forEach((value, key) => fn.call(thisArg, value, key, this))
+    }
+
+    keys() {
+        this.keyNodes.trackIteration()
+        return this.map.keys()
+    }
+
+    values() {
+        this.keyNodes.trackIteration()
+        return this.map.values()
+    }
+
+    entries() {
+        this.keyNodes.trackIteration()
+        return this.map.entries()
+    }
+
+    [Symbol.iterator]() {
+        return this.entries()
+    }
+}
+
+/**
+ * Set-like argument of set composition methods - the same as ES2025 `ReadonlySetLike`
+ */
+interface SetLike<T> {
+    readonly size: number
+    has(value: T): boolean
+    keys(): Iterator<T>
+}
+
+function forEachKey<T>(other: SetLike<T>, fn: (value: T) => void): void {
+    const keys = other.keys()
+    for (let next = keys.next(); !next.done; next = keys.next()) fn(next.value)
+}
+
+class ReactiveSet<T> implements Set<T> {
+    readonly [Symbol.toStringTag] = 'Set'
+    private readonly set: Set<T>
+    private readonly keyNodes: KeyNodes<T>
+
+    constructor(values?: Iterable<T> | null) {
+        this.set = new Set(values)
+        this.keyNodes = new KeyNodes(this.set.size)
+    }
+
+    get size() {
+        this.keyNodes.trackSize()
+        return this.set.size
+    }
+
+    has(value: T) {
+        this.keyNodes.track(value)
+        return this.set.has(value)
+    }
+
+    add(value: T) {
+        if (!this.set.has(value)) {
+            this.set.add(value)
+            this.keyNodes.notify([value], this.set.size)
+        }
+        return this
+    }
+
+    delete(value: T) {
+        if (!this.set.delete(value)) return false
+        this.keyNodes.notify([value], this.set.size)
+        return true
+    }
+
+    clear() {
+        if (this.set.size === 0) return
+        const values = [...this.set]
+        this.set.clear()
+        this.keyNodes.notify(values, 0)
+    }
+
+    forEach(fn: (value: T, key: T, set: Set<T>) => void, thisArg?: any) {
+        this.keyNodes.trackIteration()
+        this.set.forEach(value => fn.call(thisArg, value, value, this))
+    }
+
+    keys() {
+        return this.values()
+    }
+
+    values() {
+        this.keyNodes.trackIteration()
+        return this.set.values()
+    }
+
+    entries() {
+        this.keyNodes.trackIteration()
+        return this.set.entries()
+    }
+
+    [Symbol.iterator]() {
+        return this.values()
+    }
+
+    // set composition methods are reading all the values, so they're tracking iteration - they're
+    // implemented by iteration, as native ES2025 methods aren't available in all environments
+    union<U>(other: SetLike<U>): Set<T | U> {
+        this.keyNodes.trackIteration()
+        const result = new Set<T | U>(this.set)
+        forEachKey(other, value => result.add(value))
+        return result
+    }
+
+    intersection<U>(other: SetLike<U>): Set<T & U> {
+        this.keyNodes.trackIteration()
+        const result = new Set<T & U>()
+        if (this.set.size <= other.size) {
+            this.set.forEach(value => {
+                if (other.has(value as unknown as U)) result.add(value as T & U)
+            })
+        } else {
+            forEachKey(other, value => {
+                if (this.set.has(value as unknown as T)) result.add(value as T & U)
+            })
+        }
+        return result
+    }
+
+    difference<U>(other: SetLike<U>): Set<T> {
+        this.keyNodes.trackIteration()
+        const result = new Set<T>()
+        this.set.forEach(value => {
+            if (!other.has(value as unknown as U)) result.add(value)
+        })
+        return result
+    }
+
+    symmetricDifference<U>(other: SetLike<U>): Set<T | U> {
+        this.keyNodes.trackIteration()
+        const result = new Set<T | U>(this.set)
+        forEachKey(other, value => {
+            if (this.set.has(value as unknown as T)) result.delete(value)
+            else result.add(value)
+        })
+        return result
+    }
+
+    isSubsetOf(other: SetLike<unknown>): boolean {
+        this.keyNodes.trackIteration()
+        if (this.set.size > other.size) return false
+        let subset = true
+        this.set.forEach(value => {
+            if (subset && !other.has(value)) subset = false
+        })
+        return subset
+    }
+
+    isSupersetOf(other: SetLike<unknown>): boolean {
+        this.keyNodes.trackIteration()
+        if (this.set.size < other.size) return false
+        let superset = true
+        forEachKey(other, value => {
+            if (superset && !this.set.has(value as T)) superset = false
+        })
+        return superset
+    }
+
+    isDisjointFrom(other: SetLike<unknown>): boolean {
+        this.keyNodes.trackIteration()
+        let disjoint = true
+        if (this.set.size <= other.size) {
+            this.set.forEach(value => {
+                if (disjoint && other.has(value)) disjoint = false
+            })
+        } else {
+            forEachKey(other, value => {
+                if (disjoint && this.set.has(value as T)) disjoint = false
+            })
+        }
+        return disjoint
+    }
+}
@@ -0,0 +1,232 @@
+import type { Hold, HoldInfo, HoldOptions, Observable, WritableNode } from './types'
+import { getOwner, isDevMode, NAMES, setHoldHooks } from './observable'
+import { idOf } from './inspector'
+import { timeline } from './asynx'
+
+/* ************************************************************************ *
+ * Observable Holds                                                         *
+ * ************************************************************************ *
+ * - hold is locking observables - their writes are kept pending and they   *
+ *   are committed, when the last hold of the observable is released        *
+ * - holds with timeout are released automatically on AsynX timeline, so    *
+ *   forgotten release isn't freezing the observable forever                *
+ * - in dev mode, holds are registered - write to observable held by other  *
+ *   hold, made while running a hold (or AsynX step), marks the writer as   *
+ *   waiting for it, and cycles of waiting holds are reported as deadlocks  *
+ * ************************************************************************ */
+
+/**
+ * Hold Hooks
+ *
+ * Internal - called by observable, when its write is held back by lock
+ */
+export interface HoldHooks {
+    blocked(source: WritableNode<any>): void
+}
+
+/**
+ * Hold
+ *
+ * Lock observables and run the function - writes of held observables are kept pending, until the
+ * returned hold is released. When the function returns promise, the hold is released when it's settled.
+ * @param observables - observables to hold
+ * @param fn - function run with held observables
+ * @param options - debug name and timeout
+ */
+export function hold<R = void>(observables: Observable<any>[], fn?: () => R, options: HoldOptions = {}): Hold<R> {
+    const handle = new ObservableHold<R>(observables.map(obs => obs.__src__), options)
+    if (fn) {
+        let result: R
+        try {
+            result = handle.run(fn)
+        } catch (err) {
+            // the handle isn't returned, so it couldn't be released by the caller
+            handle.release()
+            throw err
+        }
+        handle.result = result
+        if (isThenable(result)) result.then(() => handle.release(), () => handle.release())
+    }
+    return handle
+}
+
+/**
+ * Get Holds
+ *
+ * List active holds registered in dev mode - held observables, holds they're waiting for and
+ * where they were created
+ */
+export function getHolds(): HoldInfo[] {
+    return [...REGISTRY].map(describe)
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+// Dev mode registry - active holds and holds of every held source
+const REGISTRY = new Set<ObservableHold<any>>(),
+    HELD = new Map<WritableNode<any>, Set<ObservableHold<any>>>()
+
+let $$Holder: ObservableHold<any> | null = null, // hold running its function or AsynX step
+    nextId = 1,
+    installed = false
+
+export class ObservableHold<R> implements Hold<R> {
+    readonly name: string
+    readonly sources: WritableNode<any>[]
+    readonly owner: string | null
+    readonly stack: string | null
+    readonly waiting: Set<ObservableHold<any>>
+    released: boolean
+    result: R
+    private readonly onTimeout: ((info: HoldInfo) => void) | null
+    private readonly onDeadlock: ((cycle: HoldInfo[]) => void) | null
+    private timeout: (() => void) | null
+    private registered: boolean
+    private reported: boolean
+
+    constructor(sources: WritableNode<any>[], options: HoldOptions) {
+        const owner = getOwner()
+        this.name = options.name ?? `hold #${nextId++}`
+        this.sources = sources
+        this.owner = owner && (NAMES.get(owner) ?? null)
+        this.stack = null
+        this.waiting = new Set()
+        this.released = false
+        this.result = undefined as R
+        this.onTimeout = options.onTimeout ?? null
+        this.onDeadlock = options.onDeadlock ?? null
+        this.timeout = null
+        this.registered = false
+        this.reported = false
+        for (let i = 0; i < sources.length; ++i) sources[i].lock()
+        if (isDevMode()) {
+            installHooks()
+            this.stack = new Error().stack || null
+            this.register()
+        }
+        if (options.timeout !== undefined) {
+            const timeout = options.timeout
+            this.timeout = timeline.schedule(timeout, () => {
+                this.timeout = null
+                if (this.released) return
+                const info = describe(this)
+                this.release()
+                if (this.onTimeout !== null) this.onTimeout(info)
+                else if (isDevMode()) console.warn(`${info.name} released after ${timeout}ms timeout - held: ${info.observables.join(', ')}`)
+            })
+        }
+    }
+
+    release(): void {
+        if (this.released) return
+        this.released = true
+        if (this.timeout !== null) {
+            this.timeout()
+            this.timeout = null
+        }
+        if (this.registered) this.unregister()
+        for (let i = 0; i < this.sources.length; ++i) this.sources[i].unlock()
+    }
+
+    /**
+     * Run function as the hold - writes to observables held by other holds are marking it as waiting
+     */
+    run<T>(fn: () => T): T {
+        const prev = $$Holder
+        $$Holder = this
+        try {
+            return fn()
+        } finally {
+            $$Holder = prev
+        }
+    }
+
+    private register(): void {
+        this.registered = true
+        REGISTRY.add(this)
+        for (let i = 0; i < this.sources.length; ++i) {
+            const holds = HELD.get(this.sources[i])
+            if (holds) holds.add(this)
+            else HELD.set(this.sources[i], new Set([this]))
+        }
+    }
+
+    private unregister(): void {
+        REGISTRY.delete(this)
+        REGISTRY.forEach(other => other.waiting.delete(this))
+        for (let i = 0; i < this.sources.length; ++i) {
+            const holds = HELD.get(this.sources[i])
+            if (holds && holds.delete(this) && holds.size === 0) HELD.delete(this.sources[i])
+        }
+    }
+
+    /**
+     * Mark the hold as waiting for holds of the source and report cycle of waiting holds
+     */
+    wait(source: WritableNode<any>): void {
+        const holds = HELD.get(source)
+        if (!holds) return
+        holds.forEach(other => other !== this && this.waiting.add(other))
+        const cycle = findCycle(this, this, [])
+        if (cycle !== null && !this.reported) {
+            this.reported = true
+            const infos = cycle.map(describe)
+            if (this.onDeadlock !== null) this.onDeadlock(infos)
+            else if (isDevMode()) {
+                console.warn(
+                    `Hold deadlock detected: ${infos.map(info => info.name).join(' -> ')} -> ${infos[0].name}\n` +
+                        infos.map(info => `  ${info.name} holds ${info.observables.join(', ')}`).join('\n')
+                )
+            }
+        }
+    }
+}
+
+// Hooks are set by the first hold registered in dev mode, as observable module is importing holds
+function installHooks(): void {
+    if (installed) return
+    installed = true
+    setHoldHooks({
+        blocked(source) {
+            if ($$Holder !== null && !$$Holder.released) $$Holder.wait(source)
+        }
+    })
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+    return (
+        value !== null &&
+        (typeof value === 'object' || typeof value === 'function') &&
+        typeof (value as PromiseLike<unknown>).then === 'function'
+    )
+}
+
+function findCycle(
+    start: ObservableHold<any>,
+    hold: ObservableHold<any>,
+    path: ObservableHold<any>[]
+): ObservableHold<any>[] | null {
+    if (path.includes(hold)) return null
+    path.push(hold)
+    for (const next of hold.waiting) {
+        if (next === start) return path.slice()
+        const cycle = findCycle(start, next, path)
+        if (cycle !== null) return cycle
+    }
+    path.pop()
+    return null
+}
+
+function describe(hold: ObservableHold<any>): HoldInfo {
+    return {
+        name: hold.name,
+        observables: hold.sources.map(source => NAMES.get(source) ?? `#${idOf(source)}`),
+        waitingFor: [...hold.waiting].map(other => other.name),
+        owner: hold.owner,
+        stack: hold.stack
+    }
+}
@@ -0,0 +1,219 @@
+/* ************************************************************************ *
+ * AsynX Host                                                               *
+ * ************************************************************************ *
+ * - AsynX scheduler isn't calling clock, timers and frames APIs directly,  *
+ *   but through the host object - so it could be replaced, i.e. with       *
+ *   virtual time host in tests                                             *
+ * - virtual host is driven manually - time is moving only on advanceBy(),  *
+ *   frames are run only on runAllFrames() and microtasks on flushMicro()   *
+ * - default host is created from APIs available in global scope, so the   *
+ *   scheduler works the same in browsers, Node, Deno and workers - frames  *
+ *   are emulated with timers, when animation frames aren't available       *
+ * ************************************************************************ */
+
+export type TimerHandle = unknown
+
+export interface IdleDeadline {
+    timeRemaining(): number
+}
+
+export interface AsynxHost {
+    now(): number
+    setTimeout(fn: () => void, delay: number): TimerHandle
+    clearTimeout(handle: TimerHandle): void
+    requestFrame(fn: (time: number) => void): number
+    cancelFrame(handle: number): void
+    queueMicrotask(fn: () => void): void
+    /**
+     * Optional idle callbacks - without them, idle lane is time-sliced with timers
+     */
+    requestIdle?(fn: (deadline: IdleDeadline) => void): TimerHandle
+    cancelIdle?(handle: TimerHandle): void
+}
+
+/**
+ * Global scope APIs used by environment host - only timers are required
+ */
+export interface EnvironmentScope {
+    performance?: { now(): number }
+    setTimeout(fn: () => void, delay: number): TimerHandle
+    clearTimeout(handle: any): void
+    queueMicrotask?(fn: () => void): void
+    setImmediate?(fn: () => void): unknown
+    requestAnimationFrame?(fn: (time: number) => void): number
+    cancelAnimationFrame?(handle: number): void
+    requestIdleCallback?(fn: (deadline: IdleDeadline) => void): TimerHandle
+    cancelIdleCallback?(handle: any): void
+}
+
+export interface VirtualHost extends AsynxHost {
+    /**
+     * Move virtual time forward and run all the timers due in that time, in order -
+     * microtasks are flushed before the first timer and after every timer
+     * @param ms - time to advance
+     */
+    advanceBy(ms: number): void
+
+    /**
+     * Run requested frames (and frames requested by them), at current virtual time
+     */
+    runAllFrames(): void
+
+    /**
+     * Run queued microtasks (and microtasks queued by them)
+     */
+    flushMicro(): void
+}
+
+const Resolved = Promise.resolve(),
+    FRAME_INTERVAL = 16
+
+/**
+ * Create Environment Host
+ *
+ * Create host from APIs available in the scope - `performance.now()` (or `Date.now()`), its timers
+ * (timer handles are opaque, so Node timer objects are kept as they are), `queueMicrotask` (or
+ * `setImmediate`) ticks, animation frames - emulated with timers aligned to 16ms, when they
+ * aren't available (Node, Deno, workers) - and idle callbacks, when they're available
+ * @param scope - global scope
+ */
+export function createEnvironmentHost(scope: EnvironmentScope = globalThis): AsynxHost {
+    const performance = scope.performance,
+        now: () => number =
+            performance && typeof performance.now === 'function' ? () => performance.now() : () => Date.now(),
+        host: AsynxHost = {
+            now,
+            setTimeout: (fn, delay) => scope.setTimeout(fn, delay),
+            clearTimeout: handle => scope.clearTimeout(handle),
+            requestFrame: fn => scope.requestAnimationFrame!(fn),
+            cancelFrame: handle => scope.cancelAnimationFrame!(handle),
+            queueMicrotask:
+                typeof scope.queueMicrotask === 'function'
+                    ? fn => scope.queueMicrotask!(fn)
+                    : typeof scope.setImmediate === 'function'
+                    ? fn => {
+                          scope.setImmediate!(fn)
+                      }
+                    : fn => {
+                          Resolved.then(fn)
+                      }
+        }
+
+    if (typeof scope.requestIdleCallback === 'function' && typeof scope.cancelIdleCallback === 'function') {
+        host.requestIdle = fn => scope.requestIdleCallback!(fn)
+        host.cancelIdle = handle => scope.cancelIdleCallback!(handle)
+    }
+
+    if (typeof scope.requestAnimationFrame !== 'function' || typeof scope.cancelAnimationFrame !== 'function') {
+        // frame handles are numbers, so timer handles are mapped to them
+        const frames = new Map<number, TimerHandle>()
+        let nextFrame = 1
+        host.requestFrame = fn => {
+            const handle = nextFrame++,
+                delay = FRAME_INTERVAL - (now() % FRAME_INTERVAL)
+            frames.set(
+                handle,
+                scope.setTimeout(() => {
+                    frames.delete(handle)
+                    fn(now())
+                }, delay)
+            )
+            return handle
+        }
+        host.cancelFrame = handle => {
+            const timer = frames.get(handle)
+            if (timer !== undefined) {
+                frames.delete(handle)
+                scope.clearTimeout(timer)
+            }
+        }
+    }
+    return host
+}
+
+/**
+ * Environment Host
+ *
+ * Default host, created from global scope
+ */
+export const environmentHost: AsynxHost = createEnvironmentHost()
+
+/**
+ * Create Virtual Host
+ *
+ * Create host with virtual time, that's driven step by step - to test AsynX
+ * pipelines deterministically (also in Node)
+ * @param startTime - initial virtual time
+ */
+export function createVirtualHost(startTime: number = 0): VirtualHost {
+    const timers = new Map<number, [due: number, fn: () => void]>(),
+        frames = new Map<number, (time: number) => void>(),
+        micro: (() => void)[] = []
+    let time = startTime,
+        nextHandle = 1
+
+    const nextTimer = (until: number): number => {
+        let handle = -1,
+            due = until
+        // Map is iterated in insertion order, so timers due at the same time keep their order
+        for (const [h, timer] of timers) {
+            if (timer[0] < due || (handle === -1 && timer[0] === due)) {
+                handle = h
+                due = timer[0]
+            }
+        }
+        return handle
+    }
+
+    const host: VirtualHost = {
+        now: () => time,
+        setTimeout(fn, delay) {
+            const handle = nextHandle++
+            timers.set(handle, [time + Math.max(0, delay || 0), fn])
+            return handle
+        },
+        clearTimeout(handle) {
+            timers.delete(handle as number)
+        },
+        requestFrame(fn) {
+            const handle = nextHandle++
+            frames.set(handle, fn)
+            return handle
+        },
+        cancelFrame(handle) {
+            frames.delete(handle)
+        },
+        queueMicrotask(fn) {
+            micro.push(fn)
+        },
+        flushMicro() {
+            // queue could grow when running - new microtasks are run in the same flush,
+            // and every task is taken off before running, so a throwing one isn't re-run
+            while (micro.length > 0) micro.shift()!()
+        },
+        advanceBy(ms) {
+            const until = time + ms
+            let handle: number
+            host.flushMicro()
+            while ((handle = nextTimer(until)) !== -1) {
+                const [due, fn] = timers.get(handle)!
+                timers.delete(handle)
+                time = due
+                fn()
+                host.flushMicro()
+            }
+            time = until
+        },
+        runAllFrames() {
+            let count = 0
+            while (frames.size > 0) {
+                const running = [...frames.values()]
+                frames.clear()
+                for (let i = 0; i < running.length; i++) running[i](time)
+                host.flushMicro()
+                if (count++ > 1e4) throw new Error('Runaway frames detected')
+            }
+        }
+    }
+    return host
+}
@@ -13,6 +13,7 @@ export {
     mount,
     cleanup,
     error,
+    errorBoundary,
     context,
     contextId,
     isListening,
@@ -22,10 +23,27 @@ export {
     remount,
     computed,
     createSuspense,
+    createSuspenseList,
     signal,
     suspend,
+    transition,
+    transaction,
+    isPending,
+    setDevMode,
+    CircularDependencyError,
+    RunawayUpdateError,
 } from './observable'
 
 export * from './types'
 export * from './asynx'
+export * from './host'
 export * from './resource'
+export { createResourceCache } from './cache'
+export { label, nameOf, inspect } from './inspector'
+export { startProfiling, stopProfiling, getProfile, exportChromeTrace } from './profiler'
+export { hold, getHolds } from './hold'
+export type { LabelTarget } from './inspector'
+export { store, produce, reconcile, unwrap, isWrappable, $RAW, $TRACK } from './store'
+export { snapshot, restore } from './snapshot'
+export * from './array'
+export { reactiveMap, reactiveSet } from './collections'
@@ -0,0 +1,211 @@
+import type {
+    GraphSnapshot,
+    InspectedFlag,
+    InspectedKind,
+    InspectedNode,
+    Observable,
+    ObservableNode,
+    ObserverNode,
+    Store,
+    Subscription
+} from './types'
+import { ObserverType, State } from './enums'
+import { getOwner, NAMES } from './observable'
+
+/* ************************************************************************ *
+ * Reactive Graph Inspector                                                 *
+ * ************************************************************************ *
+ * - introspection surface for reactive graph built by observables and      *
+ *   observers - it's only reading graph nodes fields, so inspecting is     *
+ *   never tracked and never re-computing stale nodes                       *
+ * - debug names are opt-in and stored outside the nodes, in WeakMap, so    *
+ *   they have no impact on graph nodes shape and performance               *
+ * - it's not using DOM, so it works the same in browser and headless Node  *
+ * ************************************************************************ */
+
+type InspectableNode = ObservableNode<any> | ObserverNode<any>
+export type LabelTarget = Observable<any> | InspectableNode | Store<object>
+export type LabelEntry = [name: string, target: LabelTarget]
+
+export const LABELS = Symbol('labels')
+
+const IDS = new WeakMap<object, number>(),
+    FLAGS: [State, InspectedFlag][] = [
+        [State.Stale, 'stale'],
+        [State.Pending, 'pending'],
+        [State.PendingDisposal, 'pendingDisposal'],
+        [State.Running, 'running'],
+        [State.Disposed, 'disposed']
+    ]
+
+let nextId = 1
+
+/**
+ * Label
+ *
+ * Set opt-in debug name for graph node - when called without target, it names
+ * the current Owner (in example, memo or effect inside its computation). Labeled
+ * targets are also registered in the current Owner scope, to be found by snapshot()
+ * @param name - debug name
+ * @param target - observable, store or graph node to name, current Owner by default - other
+ * functions (i.e. signal getters or memos) haven't got a writable source, so they're rejected
+ */
+export function label(name: string, target?: LabelTarget): void {
+    const owner = getOwner()
+    if (arguments.length === 1) {
+        if (owner === null) console.warn('label called outside a reactive owner will be ignored')
+        else NAMES.set(owner, name)
+        return
+    }
+    NAMES.set(resolveNode(target!), name)
+    if (owner !== null) {
+        const ctx = owner.ctx || (owner.ctx = {}),
+            labels = ctx[LABELS] as LabelEntry[] | undefined
+        if (labels) labels.push([name, target!])
+        else ctx[LABELS] = [[name, target!]]
+    }
+}
+
+/**
+ * Name Of
+ *
+ * Get debug name of graph node or null, when it's not labeled
+ * @param target
+ */
+export function nameOf(target: LabelTarget): string | null {
+    return NAMES.get(resolveNode(target)) ?? null
+}
+
+/**
+ * Inspect
+ *
+ * Walk the reactive graph from the owner (current Owner by default) - its owned
+ * subtree, and sources and observers of every walked observer - and return
+ * detached snapshot of graph shape and state
+ * @param owner - owner to start from - i.e. `getOwner()` called in `appRoot`
+ */
+export function inspect(owner: ObserverNode<any> | null = getOwner()): GraphSnapshot {
+    if (owner === null) throw new Error('Cannot inspect graph without an owner')
+    const nodes: Record<number, InspectedNode> = {}
+    walk(owner, nodes)
+    return { root: idOf(owner), nodes }
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+function resolveNode(target: LabelTarget): InspectableNode {
+    if (typeof target !== 'function') {
+        // stores are named by their proxy, as they haven't got a single graph node
+        return target as InspectableNode
+    }
+    if (!isObservable(target)) throw new Error('Only observables, stores and graph nodes could be labeled')
+    return target.__src__
+}
+
+export function isObservable(target: unknown): target is Observable<any> {
+    return typeof target === 'function' && (target as Partial<Observable<any>>).__src__ !== undefined
+}
+
+export function idOf(node: object): number {
+    let id = IDS.get(node)
+    if (id === undefined) IDS.set(node, (id = nextId++))
+    return id
+}
+
+function isObserver(node: InspectableNode): node is ObserverNode<any> {
+    return typeof (node as ObserverNode<any>).type === 'number'
+}
+
+function walk(observer: ObserverNode<any>, nodes: Record<number, InspectedNode>): void {
+    const owned = observer.owned
+    describe(observer, nodes)
+    if (owned !== null) {
+        for (let i = 0; i < owned.length; ++i) {
+            // owned nodes could be already described as sources of other observers
+            // (i.e. memo read by its sibling), but their subtree isn't walked yet
+            walk(owned[i], nodes)
+        }
+    }
+}
+
+function describe(node: InspectableNode, nodes: Record<number, InspectedNode>): InspectedNode {
+    const id = idOf(node)
+    if (id in nodes) return nodes[id]
+    const inspected: InspectedNode = {
+        id,
+        kind: 'source',
+        name: NAMES.get(node) ?? null,
+        state: State.Actual,
+        flags: [],
+        value: node.value,
+        owner: null,
+        ownerChain: [],
+        context: [],
+        owned: [],
+        sources: [],
+        observers: []
+    }
+    nodes[id] = inspected
+    // observers are described too, so every edge of the snapshot points at its node
+    if (node.sub !== null) inspected.observers = subscribers(node.sub).map(observer => describe(observer, nodes).id)
+    if (isObserver(node)) {
+        inspected.kind = kindOf(node.type)
+        inspected.state = node.state
+        inspected.flags = flagsOf(node.state)
+        inspected.owner = node.owner && idOf(node.owner)
+        for (let owner = node.owner; owner !== null; owner = owner.owner) {
+            inspected.ownerChain.push(idOf(owner))
+        }
+        if (node.ctx !== null) {
+            inspected.context = Object.getOwnPropertySymbols(node.ctx).map(key => key.description || key.toString())
+        }
+        if (node.owned !== null) inspected.owned = node.owned.map(idOf)
+        if (node.src1 !== null) inspected.sources.push(describe(node.src1.node, nodes).id)
+        if (node.srcs !== null) {
+            for (let i = 0; i < node.srcs.length; ++i) {
+                inspected.sources.push(describe(node.srcs[i].node, nodes).id)
+            }
+        }
+    }
+    return inspected
+}
+
+function subscribers(sub: Subscription): ObserverNode<any>[] {
+    const observers: ObserverNode<any>[] = []
+    if (sub.obs1 !== null) observers.push(sub.obs1)
+    if (sub.obs !== null) {
+        for (let i = 0; i < sub.obs.length; ++i) observers.push(sub.obs[i])
+    }
+    return observers
+}
+
+function flagsOf(state: State): InspectedFlag[] {
+    const flags: InspectedFlag[] = []
+    for (let i = 0; i < FLAGS.length; ++i) {
+        if ((state & FLAGS[i][0]) !== 0) flags.push(FLAGS[i][1])
+    }
+    return flags
+}
+
+export function kindOf(type: ObserverType): InspectedKind {
+    switch (type) {
+        case ObserverType.Memo:
+            return 'memo'
+        case ObserverType.Observer:
+            return 'observer'
+        case ObserverType.RenderEffect:
+            return 'renderEffect'
+        case ObserverType.AfterEffect:
+            return 'effect'
+        case ObserverType.Computed:
+            return 'computed'
+        case ObserverType.RemountableRoot:
+            return 'remountableRoot'
+        default:
+            return 'root'
+    }
+}
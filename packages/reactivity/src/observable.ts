@@ -1,4 +1,5 @@
 import type {
+    DevModeOptions,
     Equals,
     ErrorHandler,
     MemoCreator,
@@ -9,11 +10,19 @@ import type {
     ObserverCreator,
     ObserverNode,
     QueueItem,
+    SourceOptions,
     Readable, SignalCreator,
+    SuspenseListOptions,
+    SuspenseOptions,
     Subscription,
+    Transaction,
+    TransactionState,
     WritableNode
 } from './types'
+import type { ProfilerHooks } from './profiler'
+import type { HoldHooks } from './hold'
 import { callAll, isFunction, lookup, runAll } from './utils'
+import { getAsynxHost, timeline } from './asynx'
 import { ObserverType, State } from './enums'
 
 /* **************************************************************************************************** *
@@ -94,18 +103,20 @@ class Source<T> implements WritableNode<T> {
     public sub: Subscription | null
     private locked: number
     private readonly eq: Equals<T> | null
+    private readonly hooks: SourceOptions<T> | null
 
-    constructor(value: T, equals: Equals<T> | null) {
+    constructor(value: T, equals: Equals<T> | null, hooks: SourceOptions<T> | null = null) {
         this.value = value
         this.pending = NOT_PENDING
         this.sub = null
         this.eq = equals
         this.locked = 0
+        this.hooks = hooks
     }
 
     current(): T {
         if ($$Observer !== null) {
-            if (this.sub === null) this.sub = new SourceSub()
+            if (this.sub === null) this.sub = new SourceSub(this, this.hooks)
             this.sub.connect()
         }
         return this.value as T
@@ -113,6 +124,7 @@ class Source<T> implements WritableNode<T> {
 
     private next(value: T): T {
         if (this.locked > 0) {
+            if ($$Holds !== null && $$Dev !== null) $$Holds.blocked(this)
             this.pending = value
             return this.pending
         }
@@ -165,6 +177,7 @@ class Source<T> implements WritableNode<T> {
         if (arguments.length === 0) return this.current()
         const lastValue = (this.pending === NOT_PENDING ? this.value : this.pending) as T
         next = isFunction(next) ? next(lastValue) : next!
+        if ($$Transaction !== null) $$Transaction.record(this, lastValue)
         return !this.eq || !this.eq(lastValue, next) ? this.next(next) : lastValue
     }
 }
@@ -223,6 +236,7 @@ class Observer<T> implements ObserverNode<T> {
         this.depsCount = 0
         this.depSlot = 0
         this.sub = null
+        if ($$Dev !== null) STACKS.set(this, new Error().stack || '')
     }
 
     /**
@@ -240,10 +254,10 @@ class Observer<T> implements ObserverNode<T> {
                 liftObserver(this)
             }
             if (this.age === $$Time && state === State.Running) {
-                throw new Error('Circular dependency.')
+                throw new CircularDependencyError(dependencyPath(this))
             }
             if ((state & State.Disposed) === 0) {
-                if (this.sub === null) this.sub = new SourceSub()
+                if (this.sub === null) this.sub = new SourceSub(this)
                 this.sub.connect()
             }
         }
@@ -255,19 +269,26 @@ class Observer<T> implements ObserverNode<T> {
  * SourceSub
  *
  * Object responsible for managing connections/subscriptions, between observables
- * and observers.
+ * and observers. It keeps the reference to its observable node, so the graph could
+ * be also traversed from observers to their sources (used by inspector).
  */
 class SourceSub implements Subscription {
+    public readonly node: Subscription['node']
     public obs1: Subscription['obs1']
     public obs1Slot: Subscription['obs1Slot']
     public obs: Subscription['obs']
     public obsSlots: Subscription['obsSlots']
+    private readonly hooks: SourceOptions<any> | null
+    private observed: boolean
 
-    constructor() {
+    constructor(node: Subscription['node'], hooks: SourceOptions<any> | null = null) {
+        this.node = node
         this.obs1 = null
         this.obs1Slot = 0
         this.obs = null
         this.obsSlots = null
+        this.hooks = hooks
+        this.observed = false
     }
 
     connect() {
@@ -277,6 +298,11 @@ class SourceSub implements Subscription {
             srcObs1 = this.obs1,
             toSlot = to.src1 === null ? -1 : obsSrcs === null ? 0 : obsSrcs.length
         let fromSlot: number
+        if (this.hooks !== null && !this.observed) {
+            this.observed = true
+            // hook is called untracked, so its reads aren't connected to the observer
+            if (this.hooks.onObserved) untrack(this.hooks.onObserved)
+        }
         if (srcObs1 === null) {
             this.obs1 = to
             this.obs1Slot = toSlot
@@ -320,6 +346,22 @@ class SourceSub implements Subscription {
                 else last!.srcSlots![lastSlot!] = slot
             }
         }
+        if (this.hooks !== null && this.observed && !this.hasObservers()) {
+            // in update, observer is disconnected before re-running, so check it after the update
+            if ($$IsRunning) $$Unobserved.push(this)
+            else this.unobserved()
+        }
+    }
+
+    unobserved(): void {
+        if (this.observed && !this.hasObservers()) {
+            this.observed = false
+            if (this.hooks!.onUnobserved) untrack(this.hooks!.onUnobserved)
+        }
+    }
+
+    private hasObservers(): boolean {
+        return this.obs1 !== null || (this.obs !== null && this.obs.length > 0)
     }
 }
 
@@ -335,17 +377,75 @@ export class SuspensionSignal implements Error {
     }
 }
 
+/**
+ * Circular Dependency Error
+ *
+ * Thrown, when running observer is read again, by its own computation or by observers it's reading.
+ * Nodes are the dependency path, from the re-read observer to the observer reading it - without dev
+ * mode, readers aren't recorded, so the path contains only these two observers and has no stacks
+ */
+export class CircularDependencyError extends Error {
+    readonly nodes: ObserverNode<any>[]
+    readonly names: (string | null)[]
+    readonly stacks: (string | null)[]
+
+    constructor(nodes: ObserverNode<any>[]) {
+        const names = namesOf(nodes)
+        const hint = $$Dev === null ? ' (enable dev mode for the full path)' : ''
+        super(`Circular dependency: ${names.concat(names[0]).map(displayName).join(' -> ')}${hint}`)
+        this.name = 'CircularDependencyError'
+        this.nodes = nodes
+        this.names = names
+        this.stacks = stacksOf(nodes)
+    }
+}
+
+/**
+ * Runaway Update Error
+ *
+ * Thrown, when update flush is still re-dirtying observers after max number of ticks - the flush
+ * is aborted (pending changes are dropped and queued observers are left stale, to be re-run on
+ * the next read or change) and nodes are the observers, that were queued for the next tick
+ */
+export class RunawayUpdateError extends Error {
+    readonly nodes: ObserverNode<any>[]
+    readonly names: (string | null)[]
+    readonly stacks: (string | null)[]
+    readonly iterations: number
+
+    constructor(nodes: ObserverNode<any>[], iterations: number) {
+        const names = namesOf(nodes)
+        super(`Runaway update: flush aborted after ${iterations} ticks, still updating: ${names.map(displayName).join(', ')}`)
+        this.name = 'RunawayUpdateError'
+        this.nodes = nodes
+        this.names = names
+        this.stacks = stacksOf(nodes)
+        this.iterations = iterations
+    }
+}
+
 export class SuspenseContext {
     private pendingCount: number = 0
     private contentObserver: ObserverNode<any> | null
+    private transition: Transition | null
+    // suspensions counted by the holding transition - never more than pendingCount
+    private transitionCount: number
+    public committed: boolean
+    public rendering: boolean
     public isSuspended: Observable<boolean>
     public error: Observable<Error | null>
+    private readonly trigger: Observable<undefined>
 
     constructor() {
         this.pendingCount = 0
         this.contentObserver = null
+        this.transition = null
+        this.transitionCount = 0
+        this.committed = false
+        this.rendering = false
         this.isSuspended = observable(false)
         this.error = observable<Error | null>(null)
+        this.trigger = observable<undefined>(undefined, false)
     }
 
     getError() {
@@ -359,31 +459,228 @@ export class SuspenseContext {
 
     increment() {
         this.pendingCount++
-        this.isSuspended(true)
+        if ($$Transition !== null && this.committed) {
+            // Suspended by transition - hold committed content, instead of switching to fallback
+            if (this.transition !== $$Transition) this.holdBy($$Transition)
+            this.transitionCount++
+            $$Transition.count++
+        } else this.isSuspended(true)
     }
 
     decrement() {
         this.pendingCount--;
-        if (this.pendingCount === 0 && this.contentObserver) {
-            // Schedule a re-render of the main content
-            batch(() => {
-                // Mark content as stale so it re-runs
-                this.contentObserver!.state |= State.Stale
-                // Run the updates
-                updateNode(this.contentObserver!)
-            });
-        }
+        const transition = this.transition
+        if (transition !== null) {
+            // Settled suspension isn't identified, so it's counted by the transition only when the
+            // rest of pending suspensions can't cover the transition ones - transition is never
+            // committed before its own suspensions, and it's committed when the boundary is settled
+            if (this.transitionCount > this.pendingCount) {
+                this.transitionCount--
+                // Held content is re-rendered on transition commit, together with other held boundaries
+                if (--transition.count === 0) transition.commit()
+            }
+        } else if (this.pendingCount === 0) this.rerender()
+    }
+
+    isHeld() {
+        return this.transition !== null
+    }
+
+    settle() {
+        this.transition = null
+        this.transitionCount = 0
+        if (this.pendingCount === 0) this.rerender()
+    }
+
+    supersede(from: Transition, to: Transition) {
+        if (this.transition === from) this.holdBy(to)
+    }
+
+    private holdBy(transition: Transition) {
+        // Outstanding suspensions of the previous transition are carried over, so the new one
+        // isn't committed, before the content of the boundary can be rendered
+        if (this.transition !== null) this.transition.count -= this.transitionCount
+        this.transition = transition
+        transition.count += this.transitionCount
+        transition.held.add(this)
+    }
+
+    rerender() {
+        // Schedule a re-render of the main content - it's notified through the trigger node, so
+        // re-render is a regular update and content observers are also updated
+        if (this.contentObserver) this.trigger(undefined)
     }
 
     registerContent(observer: ObserverNode<any> | null) {
         this.contentObserver = observer
+        this.trigger()
+    }
+}
+
+export const SUSPENSE_LIST = Symbol('suspense-list')
+
+type RevealState = 'content' | 'fallback' | 'hidden'
+
+export class SuspenseListContext {
+    private readonly boundaries: SuspenseContext[]
+    private readonly changed: Observable<undefined>
+    private readonly reveal: Readable<Map<SuspenseContext, RevealState>>
+
+    constructor(options: SuspenseListOptions) {
+        this.boundaries = []
+        this.changed = observable<undefined>(undefined, false)
+        this.reveal = memo(() => {
+            this.changed()
+            return revealStates(this.boundaries, options)
+        })
+    }
+
+    register(boundary: SuspenseContext) {
+        this.boundaries.push(boundary)
+        this.changed(undefined)
+    }
+
+    unregister(boundary: SuspenseContext) {
+        const index = this.boundaries.indexOf(boundary)
+        if (index !== -1) {
+            this.boundaries.splice(index, 1)
+            this.changed(undefined)
+        }
+    }
+
+    stateOf(boundary: SuspenseContext): RevealState {
+        return this.reveal().get(boundary) ?? 'content'
+    }
+}
+
+/**
+ * Transition
+ *
+ * Pending state of running transitions - counts suspensions triggered by transition
+ * writes and holds suspended boundaries, until all of them are settled. New transition
+ * started before commit is superseding the pending one - it takes over its held boundaries,
+ * together with their pending suspensions, and the superseded one is resolved on its commit.
+ */
+class Transition {
+    public count: number
+    public readonly held: Set<SuspenseContext>
+    public readonly done: Promise<void>
+    private readonly superseded: Transition[]
+    private resolve!: () => void
+
+    constructor() {
+        this.count = 0
+        this.held = new Set()
+        this.done = new Promise(resolve => (this.resolve = resolve))
+        this.superseded = []
+    }
+
+    supersede(next: Transition) {
+        for (const context of this.held) context.supersede(this, next)
+        this.held.clear()
+        next.superseded.push(this, ...this.superseded)
+        this.superseded.length = 0
+    }
+
+    commit() {
+        if ($$PendingTransition === this) $$PendingTransition = null
+        batch(() => {
+            setTransitionPending(false)
+            for (const context of this.held) context.settle()
+        })
+        this.held.clear()
+        this.resolve()
+        for (let i = 0; i < this.superseded.length; ++i) this.superseded[i].resolve()
+        this.superseded.length = 0
+    }
+}
+
+/**
+ * Transaction Log
+ *
+ * Values of sources written in transaction, from before their first write - rollback is writing
+ * them back in one batch. Writes of nested transactions are also recorded by their parents, so
+ * inner rollback restores only the inner writes. AsynX pipelines scheduled in transaction are
+ * joining it - it's committed automatically, when all of them are completed.
+ */
+class TransactionLog<R> implements Transaction<R> {
+    public result!: R
+    public state: TransactionState
+    public readonly done: Promise<TransactionState>
+    private readonly parent: TransactionLog<any> | null
+    private readonly prev: Map<Source<any>, any>
+    private pipelines: number
+    private resolve!: (state: TransactionState) => void
+
+    constructor(parent: TransactionLog<any> | null) {
+        this.state = 'pending'
+        this.done = new Promise(resolve => (this.resolve = resolve))
+        this.parent = parent
+        this.prev = new Map()
+        this.pipelines = 0
+    }
+
+    record(source: Source<any>, value: any) {
+        if (this.state === 'pending' && !this.prev.has(source)) this.prev.set(source, value)
+        if (this.parent !== null) this.parent.record(source, value)
+    }
+
+    run<T>(fn: () => T): T {
+        const running = $$Transaction
+        $$Transaction = this.state === 'pending' ? this : running
+        try {
+            return fn()
+        } finally {
+            $$Transaction = running
+        }
+    }
+
+    join() {
+        this.pipelines++
+    }
+
+    leave(completed: boolean) {
+        if (--this.pipelines === 0 && completed) this.commit()
+    }
+
+    commit() {
+        if (this.state !== 'pending') return
+        this.settle('committed')
+    }
+
+    rollback() {
+        if (this.state !== 'pending') return
+        const prev = [...this.prev]
+        this.settle('rolledBack')
+        // restored values aren't recorded by the parent transactions
+        const running = $$Transaction
+        $$Transaction = null
+        try {
+            batch(() => {
+                for (let i = 0; i < prev.length; ++i) {
+                    const [source, value] = prev[i]
+                    source.call(() => value)
+                }
+            })
+        } finally {
+            $$Transaction = running
+        }
+    }
+
+    private settle(state: TransactionState) {
+        this.state = state
+        this.prev.clear()
+        this.resolve(state)
     }
 }
 
 // Constants
 const EQUALS = <T>(prev: T, next: T): boolean => prev === next,
     ERROR = Symbol('error'),
+    NO_ERROR = {},
     NOT_PENDING: NotPending = {},
+    MAX_ITERATIONS = 1e5,
+    DEV_MAX_ITERATIONS = 1000,
     // Queues
     $$Changes = new Queue<WritableNode<any>>(applyDataChange),
     $$Updates = new Queue<ObserverNode<any>>(updateNode),
@@ -394,10 +691,23 @@ const EQUALS = <T>(prev: T, next: T): boolean => prev === next,
 let $$Observer: ObserverNode<any> | null = null, // currently running observer
     $$Owner: ObserverNode<any> | null = null, // owner for new observers
     $$Pending: ObserverNode<any> | null = null, // pending observer
+    $$Transition: Transition | null = null, // transition collecting suspensions from running writes
+    $$PendingTransition: Transition | null = null, // transition waiting for suspensions to settle
+    $$Transaction: TransactionLog<any> | null = null, // transaction recording running writes
     // Scheduling
     $$Time = 0,
     $$IsRunning = false,
-    $$PendingEffects: Set<ObserverNode<any>> | null = null
+    $$PendingEffects: Set<ObserverNode<any>> | null = null,
+    $$Unobserved: SourceSub[] = [], // subscriptions disconnected from the last observer in update
+    // Diagnostics
+    $$Dev: Required<DevModeOptions> | null = null, // dev mode options, null when it's disabled
+    $$Profiler: ProfilerHooks | null = null, // profiler recording updates, null when it's stopped
+    $$Holds: HoldHooks | null = null // hold registry notified about held writes, in dev mode
+
+// Debug info - stored outside the nodes, so it has no impact on their shape
+export const NAMES = new WeakMap<object, string>() // opt-in debug names, set by label()
+const STACKS = new WeakMap<object, string>(), // observers creation stacks, in dev mode
+    READERS = new WeakMap<ObserverNode<any>, ObserverNode<any> | null>() // observer read by, in dev mode
 
 const UNOWNED = createObserverNode(ObserverType.Root, State.Actual)
 
@@ -504,9 +814,9 @@ export const remountableRoot = <T>(fn: (dispose: () => void) => T, detachedOwner
  */
 export const observable: ObservableCreator = <T>(
     value?: T,
-    equals: Equals<T> = EQUALS
+    equals: Equals<T> | SourceOptions<T> = EQUALS
 ): Observable<T> => {
-    const src = new Source<T>(value!, equals)
+    const src = createSource<T>(value!, equals)
     const handler = src.call.bind(src) as Observable<T>
     handler.__src__ = src
     return handler
@@ -514,9 +824,9 @@ export const observable: ObservableCreator = <T>(
 
 export const signal: SignalCreator = <T>(
     value?: T,
-    equals: Equals<T> = EQUALS
+    equals: Equals<T> | SourceOptions<T> = EQUALS
 ): ObservableSignal<T> => {
-    const src = new Source<T>(value!, equals)
+    const src = createSource<T>(value!, equals)
     return [src.current.bind(src), n => src.call(n)]
 }
 
@@ -714,6 +1024,37 @@ export const error = (fn: ErrorHandler): void => {
     else ($$Owner.ctx[ERROR] as ErrorHandler[]).push(fn)
 }
 
+/**
+ * Error Boundary
+ *
+ * Run function in error boundary - when something in its scope throw an error (also in effects
+ * and AsynX pipelines created in scope), the failed scope is disposed and fallback is rendered
+ * instead. Fallback receives the error and reset function, that's re-running the original function
+ * @param fn - guarded function
+ * @param fallback - function called with error and reset, when guarded function has failed
+ */
+export function errorBoundary<T>(fn: () => T, fallback: (err: any, reset: () => void) => T): Readable<T> {
+    // caught signal hasn't got equals, so reset is always re-running boundary
+    const [caught, setCaught] = signal<unknown>(NO_ERROR, false)
+    const reset = () => setCaught(NO_ERROR)
+    return memo(() => {
+        let err = caught()
+        if (err === NO_ERROR) {
+            // handler is registered in boundary scope, so it's removed when boundary re-runs
+            error((e?: unknown) => {
+                setCaught(() => e)
+            })
+            try {
+                return untrack(fn)
+            } catch (e) {
+                if (e instanceof SuspensionSignal) throw e
+                err = e
+            }
+        }
+        return untrack(() => fallback(err, reset))
+    })
+}
+
 export const contextId = () => Symbol('x-rx/context')
 
 export function context<T>(id: symbol, value?: T): T | undefined {
@@ -728,17 +1069,63 @@ export function context<T>(id: symbol, value?: T): T | undefined {
 
 export const isListening = () => $$Observer !== null
 
+/**
+ * Set Dev Mode
+ *
+ * Enable (or disable with `false`) diagnostics - creation stacks of observers created in dev mode,
+ * full dependency path in CircularDependencyError and runaway update guard with configurable limit
+ * @param options - dev mode options, true for defaults or false to disable
+ * @returns previous options, false when dev mode was disabled
+ */
+export function setDevMode(options: DevModeOptions | boolean = true): Required<DevModeOptions> | false {
+    const previous = $$Dev || false
+    if (options === false) $$Dev = null
+    else {
+        const { maxIterations = DEV_MAX_ITERATIONS } = options === true ? {} : options
+        $$Dev = { maxIterations }
+    }
+    return previous
+}
+
+export const isDevMode = () => $$Dev !== null
+
 export const getOwner = () => $$Owner
 export const setOwner = (owner: ObserverNode<any>) => {
     $$Owner = owner
 }
 
+/**
+ * Set Profiler
+ *
+ * Internal - set hooks called on source changes and observer updates, used by profiler
+ * @param profiler - profiler hooks or null to stop recording
+ */
+export const setProfiler = (profiler: ProfilerHooks | null) => {
+    $$Profiler = profiler
+}
+
+/**
+ * Set Hold Hooks
+ *
+ * Internal - set hooks notified about writes held back by locks, used by hold registry
+ * @param hooks - hold registry hooks
+ */
+export const setHoldHooks = (hooks: HoldHooks | null) => {
+    $$Holds = hooks
+}
+
 /* ********************************************************************* *
  | --------------------------------------------------------------------- |
  *      |               INTERNAL IMPLEMENTATION                    |     *
  | --------------------------------------------------------------------- |
  * ********************************************************************* */
 
+function createSource<T>(value: T, equals: Equals<T> | SourceOptions<T>): Source<T> {
+    return typeof equals === 'object' && equals !== null
+        ? new Source(value, equals.equals ?? EQUALS, equals)
+        : new Source(value, equals)
+}
+
 /**
  * Create Observer Node
  *
@@ -811,8 +1198,9 @@ function event() {
  *   stack, (potentially) just before the first async operation                                     *
  * ************************************************************************************************ */
 
-function runQueues() {
-    const running = $$IsRunning
+function runQueues(ticks = 0) {
+    const running = $$IsRunning,
+        maxIterations = $$Dev !== null ? $$Dev.maxIterations : MAX_ITERATIONS
     let count = 0
     $$IsRunning = true
     $$Disposes.size = 0
@@ -824,7 +1212,8 @@ function runQueues() {
         $$Updates.run() // Run $$Updates queue - observers and memos updates
         $$Disposes.run() // Run $$Disposes queue - roots disposed during update tick
         // if there are still changes after excessive batches, assume runaway
-        if (count++ > 1e5) throw new Error('Runaway clock detected')
+        // ticks are counted through the whole flush, also when queues are replayed after effects
+        if (ticks + count++ > maxIterations) abortRunaway(ticks + count)
         // Check if next tick is scheduled and if there are effects to reschedule
         if ($$Effects.size > 0 && ($$Changes.size > 0 || $$Updates.size > 0)) {
             // Save pending effects before replay - effects are rescheduled to next $$Time tick and accumulated.
@@ -833,8 +1222,9 @@ function runQueues() {
         }
     }
 
-    if ($$Effects.size > 0 || $$PendingEffects !== null) runEffects()
+    if ($$Effects.size > 0 || $$PendingEffects !== null) runEffects(ticks + count)
     $$IsRunning = running
+    if ($$Unobserved.length > 0) runUnobserved()
 }
 
 function savePendingEffects() {
@@ -848,7 +1238,7 @@ function savePendingEffects() {
     $$Effects.size = 0
 }
 
-function runEffects(): void {
+function runEffects(ticks = 0): void {
     let i: number
     const afterEffects = []
     if ($$PendingEffects !== null) {
@@ -889,16 +1279,50 @@ function runEffects(): void {
     // If some observables were updated during effects run, schedule next updates
     if ($$Changes.size > 0 || $$Updates.size > 0) {
         $$Time++
-        runQueues()
+        runQueues(ticks)
     } else if ($$Effects.size > 0) {
         $$Time++
-        runEffects()
+        runEffects(ticks + 1)
     }
+    if ($$Unobserved.length > 0) runUnobserved()
+}
+
+function abortRunaway(iterations: number): never {
+    const nodes = new Set<ObserverNode<any>>(),
+        add = <T>(observer: ObserverNode<T>) => {
+            nodes.add(observer)
+        }
+    for (let i = 0; i < $$Changes.size; ++i) {
+        const src = $$Changes.items[i]
+        src.pending = NOT_PENDING
+        if (src.sub !== null) markObservers(src.sub, add)
+    }
+    for (let i = 0; i < $$Updates.size; ++i) add($$Updates.items[i])
+    for (let i = 0; i < $$Effects.size; ++i) add($$Effects.items[i])
+    if ($$PendingEffects !== null) $$PendingEffects.forEach(add)
+    $$Changes.size = $$Updates.size = $$Effects.size = 0
+    $$PendingEffects = null
+    $$Disposes.run()
+    nodes.forEach(observer => {
+        // leave observers stale, without pending deps - they're re-run on next read or source change
+        if ((observer.state & State.Disposed) === 0) {
+            resetObserver(observer, State.PendingStates)
+            observer.state |= State.Stale
+        }
+    })
+    throw new RunawayUpdateError([...nodes], iterations)
+}
+
+function runUnobserved() {
+    const unobserved = $$Unobserved
+    $$Unobserved = []
+    for (let i = 0; i < unobserved.length; ++i) unobserved[i].unobserved()
 }
 
 function applyDataChange<T>(src: WritableNode<T>) {
     src.value = src.pending as T
     src.pending = NOT_PENDING
+    if ($$Profiler !== null) $$Profiler.write(src, $$Time)
     if (src.sub) markObservers(src.sub, stale)
 }
 
@@ -936,14 +1360,19 @@ function updateNode<T>(observer: ObserverNode<T>): void {
 function runObserver<T>(observer: ObserverNode<T>): T {
     const value = observer.value,
         owner = $$Owner,
-        listener = $$Observer
+        listener = $$Observer,
+        profiler = $$Profiler,
+        // sources are read before disconnect, to find which changes triggered the update
+        start = profiler !== null ? profiler.start(observer, $$Time) : 0
     $$Owner = $$Observer = observer
     observer.state = State.Running
+    if ($$Dev !== null) READERS.set(observer, listener)
     disconnect(observer, false)
     observer.value = observer.fn!(value as T) as T
     resetObserver(observer, State.All)
     $$Owner = owner
     $$Observer = listener
+    if (profiler !== null) profiler.end(observer, start)
     return value as T
 }
 
@@ -979,8 +1408,11 @@ function pending<T>(observer: ObserverNode<T>): void {
 
 function stalePending<T>(observer: ObserverNode<T>): void {
     if ((observer.state & State.Pending) !== 0) {
-        // Switch observer flag to Stale if it's in Pending state
+        // Switch observer flag to Stale if it's in Pending state - and drop its pending deps, or
+        // else it could be marked Pending again in replayed tick and never re-run
         observer.state = State.Stale
+        observer.depSlot = 0
+        observer.depsCount = 0
         if (observer.age < $$Time) {
             observer.age = $$Time
             if (!observer.eq) markDownstream(observer, false, true)
@@ -1120,6 +1552,99 @@ function disconnect<T>(observer: ObserverNode<T>, final: boolean): void {
     }
 }
 
+function dependencyPath(observer: ObserverNode<any>): ObserverNode<any>[] {
+    const path: ObserverNode<any>[] = []
+    if ($$Dev === null) {
+        if ($$Observer !== observer) path.push($$Observer!)
+    } else {
+        // walk readers back from the current observer, until the re-read observer is reached
+        let reader: ObserverNode<any> | null = $$Observer
+        while (reader !== null && reader !== observer && path.indexOf(reader) === -1) {
+            path.push(reader)
+            reader = READERS.get(reader) ?? null
+        }
+    }
+    path.push(observer)
+    return path.reverse()
+}
+
+function namesOf(nodes: ObserverNode<any>[]): (string | null)[] {
+    return nodes.map(node => NAMES.get(node) ?? null)
+}
+
+function stacksOf(nodes: ObserverNode<any>[]): (string | null)[] {
+    return nodes.map(node => STACKS.get(node) ?? null)
+}
+
+function displayName(name: string | null): string {
+    return name ?? '(anonymous)'
+}
+
+/**
+ * Fallback Timing
+ *
+ * Display content observer value (content or fallback) with delayed fallback and its min duration -
+ * timers are only re-running this memo, so the content isn't re-computed
+ * @param content - content observer
+ * @param suspenseContext - its suspense context
+ * @param delay - time before fallback is shown
+ * @param minDuration - min time fallback is shown
+ */
+function fallbackTiming<T>(content: Readable<T>, suspenseContext: SuspenseContext, delay: number, minDuration: number) {
+    const wake = observable<undefined>(undefined, false)
+    let suspendedAt: number | null = null, // when content was suspended, null when it's rendered
+        shownAt: number | null = null // when fallback was shown, null when it's hidden
+    return memo((prev?: T) => {
+        wake()
+        const value = content(),
+            now = getAsynxHost().now(),
+            wakeIn = (ms: number) => {
+                // timer is cancelled, when memo is re-run earlier
+                cleanup(timeline.schedule(ms, () => wake(undefined)))
+                return prev as T
+            }
+        if (!suspenseContext.committed) {
+            if (shownAt === null) {
+                if (suspendedAt === null) suspendedAt = now
+                // keep the previous content (or nothing) rendered, until the delay elapses
+                if (now - suspendedAt < delay) return wakeIn(delay - (now - suspendedAt))
+                shownAt = now
+            }
+            return value
+        }
+        suspendedAt = null
+        if (shownAt !== null) {
+            // keep the fallback rendered for its min duration
+            if (now - shownAt < minDuration) return wakeIn(minDuration - (now - shownAt))
+            shownAt = null
+        }
+        return value
+    })
+}
+
+function revealStates(boundaries: SuspenseContext[], options: SuspenseListOptions): Map<SuspenseContext, RevealState> {
+    const states = new Map<SuspenseContext, RevealState>(),
+        l = boundaries.length,
+        // errored boundary is ready too - it's rendering error fallback
+        ready = boundaries.map(boundary => !boundary.isSuspended() || boundary.error() !== null),
+        together = options.revealOrder === 'together',
+        allReady = ready.indexOf(false) === -1
+    let blocked = false,
+        fallbacks = 0
+    for (let k = 0; k < l; ++k) {
+        const i = options.revealOrder === 'backwards' ? l - 1 - k : k
+        if (!ready[i]) blocked = true
+        if (together ? allReady : !blocked) states.set(boundaries[i], 'content')
+        else if (options.tail === 'hidden' || (options.tail === 'collapsed' && fallbacks > 0)) {
+            states.set(boundaries[i], 'hidden')
+        } else {
+            fallbacks++
+            states.set(boundaries[i], 'fallback')
+        }
+    }
+    return states
+}
+
 function resetObserver<T>(observer: ObserverNode<T>, flags: State): void {
     observer.state &= ~flags
     observer.depSlot = 0
@@ -1134,8 +1659,8 @@ function dispose<T>(observer: ObserverNode<T>): void {
     resetObserver(observer, State.All)
 }
 
-export function handleError<E>(e: E) {
-    const fns = lookup<ErrorHandler[]>($$Owner!, ERROR)
+export function handleError<E>(e: E, owner: ObserverNode<any> | null = $$Owner) {
+    const fns = lookup<ErrorHandler[]>(owner, ERROR)
     if (!fns) throw e
     runAll(fns, e)
 }
@@ -1163,10 +1688,18 @@ export function suspend<T>(promise: Promise<T>): T {
 export function createSuspense<T, F>(
     fn: () => T,
     fallback: (error?: Error | Observable<Error | null>) => T,
-    errorAsObservable: boolean = false
+    options: SuspenseOptions | boolean = false
 ): () => T {
+    const { delay = 0, minDuration = 0, errorAsObservable = false } =
+            typeof options === 'boolean' ? { errorAsObservable: options } : options,
+        suspenseContext = new SuspenseContext(),
+        list = lookup<SuspenseListContext>($$Owner, SUSPENSE_LIST)
+    if (list) {
+        // boundaries are revealed in the list in order of their creation
+        list.register(suspenseContext)
+        cleanup(() => list.unregister(suspenseContext))
+    }
     return root(() => {
-        const suspenseContext = new SuspenseContext();
 
         // Create the fallback observer
         const fallbackObserver = computed(() => {
@@ -1175,36 +1708,141 @@ export function createSuspense<T, F>(
         });
 
         // Create the main content observer
-        const contentObserver = memo(() => {
-            suspenseContext.registerContent($$Observer); // Have to be re-registered on re-computing
+        const contentObserver = memo((prev?: T) => {
+            // Context and content have to be re-registered on re-computing, as context is cleared
+            suspenseContext.registerContent($$Observer);
+            context(SUSPENSE, suspenseContext);
+            suspenseContext.rendering = true
             try {
                 const result = fn();
+                suspenseContext.committed = true
                 // If we get here, we didn't suspend - switch back to content
                 if (suspenseContext.isSuspended()) {
                     suspenseContext.isSuspended(false)
                 }
                 return result;
             } catch (e) {
-                if (e instanceof SuspensionSignal) {
-                    // Return the fallback content
-                    return fallbackObserver()
+                if (e instanceof SuspensionSignal && suspenseContext.isHeld()) {
+                    // Suspended by transition - keep the committed content, until transition is committed
+                    return prev as T
                 }
+            } finally {
+                suspenseContext.rendering = false
             }
 
+            suspenseContext.committed = false
             return fallbackObserver()
         });
 
-        // Store the suspense context in the owner
-        if ($$Owner) {
-            if ($$Owner.ctx) $$Owner.ctx[SUSPENSE] = suspenseContext;
-            else $$Owner.ctx = { [SUSPENSE]: suspenseContext };
-        }
-
         // Return a function that selects between content and fallback
-        return contentObserver;
+        const displayed = delay > 0 || minDuration > 0
+            ? fallbackTiming(contentObserver, suspenseContext, delay, minDuration)
+            : contentObserver
+        if (!list) return displayed;
+
+        // In suspense list, ready content is kept, until the list is revealing it - fallback is
+        // rendered instead, or nothing, when it's hidden by the list tail
+        return memo(() => {
+            const state = list.stateOf(suspenseContext)
+            return state === 'content' ? displayed() : state === 'fallback' ? fallbackObserver() : undefined as T
+        });
+    })
+}
+
+/**
+ * Create Suspense List
+ *
+ * Coordinate Suspense boundaries created in the function - their content is revealed in the list
+ * order (forwards by default), instead of the order in which they are resolved, so the layout isn't
+ * jumping. Tail option is limiting, how many fallbacks of unrevealed boundaries are rendered
+ * @param fn - function creating Suspense boundaries
+ * @param options - reveal order and tail
+ */
+export function createSuspenseList<T>(fn: () => T, options: SuspenseListOptions = {}): Readable<T> {
+    return memo(() => {
+        context(SUSPENSE_LIST, new SuspenseListContext(options))
+        return untrack(fn)
     })
 }
 
+const [transitionPending, setTransitionPending] = signal(false)
+
+/**
+ * Is Pending
+ *
+ * Read if there's a transition waiting for its suspensions to settle
+ */
+export const isPending: Readable<boolean> = transitionPending
+
+/**
+ * Transition
+ *
+ * Run writes as a transition - Suspense boundaries suspended by these writes are keeping their
+ * committed content rendered, instead of switching to fallback, until every suspension triggered
+ * by the transition is settled. Then all of them are re-rendered at once, in one batch.
+ * - content of held boundary is already disposed, so it stays rendered, but it's not updated,
+ *   until the transition is committed
+ * - transition started before the pending one is committed, supersedes it - boundaries held
+ *   by the pending one stay held, their pending suspensions are also waited for by the new
+ *   one, and the superseded transition is resolved, when the new one is committed
+ * - it should be called outside the batch - writes from batch are flushed after the transition
+ * @param fn - function with transition writes
+ * @returns promise resolved, when transition is committed
+ */
+export function transition(fn: () => void): Promise<void> {
+    const superseded = $$PendingTransition,
+        pending = ($$PendingTransition = new Transition()),
+        running = $$Transition
+    $$Transition = pending
+    try {
+        batch(fn)
+    } finally {
+        $$Transition = running
+        // boundaries suspended again by the new writes are already taken over by the new transition
+        if (superseded !== null) superseded.supersede(pending)
+    }
+    if (pending.count === 0) pending.commit()
+    else setTransitionPending(true)
+    return pending.done
+}
+
+/**
+ * Transaction
+ *
+ * Run writes as an optimistic transaction - previous values of all observables written in the
+ * function are recorded, and the returned handle can roll them back in one update
+ * - writes are committed through batch, so they're rendered at once, like any batched writes
+ * - when the function throws, the transaction is rolled back and the error is re-thrown
+ * - AsynX pipelines scheduled in the function are joining the transaction - their steps writes
+ *   are recorded, the failed step (after its retries) rolls back the whole transaction, before
+ *   the error is passed to the catch step, and the transaction is committed, when all of them
+ *   are completed. Transaction without pipelines is committed or rolled back manually
+ * @param fn - function with transaction writes
+ * @returns transaction handle, with the function result
+ */
+export function transaction<R>(fn: () => R): Transaction<R> {
+    const log = new TransactionLog<R>($$Transaction)
+    let failed = false,
+        error: unknown
+    // rollback is written in the same batch, so the failed writes aren't left pending
+    log.result = log.run(() =>
+        batch(() => {
+            try {
+                return fn()
+            } catch (err) {
+                failed = true
+                error = err
+                log.rollback()
+                return undefined!
+            }
+        })
+    )
+    if (failed) throw error
+    return log
+}
+
+export const getTransaction = () => $$Transaction
+
 export function remount(observer: ObserverNode<any>) {
     for (const owned of observer.owned!) {
         owned.state |= State.Stale
@@ -0,0 +1,218 @@
+import type {
+    ObservableNode,
+    ObserverNode,
+    Profile,
+    ProfiledNode,
+    ProfiledSource,
+    ProfiledTrigger,
+    ProfileEvent,
+    Subscription,
+    WritableNode
+} from './types'
+import { idOf, kindOf } from './inspector'
+import { NAMES, setProfiler } from './observable'
+
+/* ************************************************************************ *
+ * Reactive Graph Profiler                                                  *
+ * ************************************************************************ *
+ * - opt-in recording of observer updates - number of runs, their total     *
+ *   and max durations, and source changes that triggered every run         *
+ * - triggers are propagated through updated memos, so effect re-run by     *
+ *   memo is reporting the source write that changed the memo              *
+ * - profiled nodes are referenced until the profiler is stopped, so it     *
+ *   should be used only for profiling sessions, not in production          *
+ * - it's not using DOM, so it works the same in browser and headless Node  *
+ *   (i.e. jsdom tests)                                                     *
+ * ************************************************************************ */
+
+/**
+ * Profiler Hooks
+ *
+ * Internal - called by reactive graph on source changes and observer updates
+ */
+export interface ProfilerHooks {
+    write(source: WritableNode<any>, tick: number): void
+    start(observer: ObserverNode<any>, tick: number): number
+    end(observer: ObserverNode<any>, start: number): void
+}
+
+interface NodeRecord {
+    stats: ProfiledNode
+    // sequence number of the last update, changes since are triggering the next update
+    seq: number
+    // event of running update - it's pushed on start, so nested updates are following their parent
+    event: ProfileEvent | null
+}
+
+interface ChangeRecord {
+    seq: number
+    sources: WritableNode<any>[]
+}
+
+let session: ProfilerSession | null = null
+
+/**
+ * Start Profiling
+ *
+ * Start recording observer updates and source changes - data recorded by the previous session
+ * is discarded
+ */
+export function startProfiling(): void {
+    session = new ProfilerSession()
+    setProfiler(session)
+}
+
+/**
+ * Stop Profiling
+ *
+ * Stop recording and return recorded profile
+ */
+export function stopProfiling(): Profile {
+    const profile = getProfile()
+    setProfiler(null)
+    session = null
+    return profile
+}
+
+/**
+ * Get Profile
+ *
+ * Get data recorded since profiling was started - without stopping the profiler
+ */
+export function getProfile(): Profile {
+    if (session === null) throw new Error('Profiler is not started')
+    return session.profile()
+}
+
+/**
+ * Export Chrome Trace
+ *
+ * Convert profile to Chrome trace-event JSON, that could be loaded in Chrome DevTools
+ * Performance panel or in Perfetto - updates are complete events and writes are instant events
+ * @param profile - profile returned by stopProfiling() or getProfile()
+ */
+export function exportChromeTrace(profile: Profile): string {
+    const names: Record<number, string> = {},
+        traceEvents: object[] = []
+    for (let i = 0; i < profile.nodes.length; ++i) {
+        const node = profile.nodes[i]
+        names[node.id] = `${node.kind} ${node.name ?? `#${node.id}`}`
+    }
+    for (const id in profile.sources) {
+        const source: ProfiledSource = profile.sources[id]
+        names[source.id] = `source ${source.name ?? `#${source.id}`}`
+    }
+    for (let i = 0; i < profile.events.length; ++i) {
+        const event = profile.events[i],
+            args = { id: event.id, tick: event.tick }
+        // trace timestamps are in microseconds
+        traceEvents.push(
+            event.type === 'run'
+                ? { name: names[event.id], cat: 'update', ph: 'X', ts: event.time * 1e3, dur: event.duration * 1e3, pid: 1, tid: 1, args }
+                : { name: names[event.id], cat: 'write', ph: 'i', s: 't', ts: event.time * 1e3, pid: 1, tid: 1, args }
+        )
+    }
+    return JSON.stringify({ traceEvents, displayTimeUnit: 'ms' })
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+class ProfilerSession implements ProfilerHooks {
+    private readonly nodes: Map<ObserverNode<any>, NodeRecord>
+    private readonly sources: Map<WritableNode<any>, ProfiledSource>
+    private readonly changes: WeakMap<ObservableNode<any>, ChangeRecord>
+    private readonly events: ProfileEvent[]
+    private seq: number
+
+    constructor() {
+        this.nodes = new Map()
+        this.sources = new Map()
+        this.changes = new WeakMap()
+        this.events = []
+        this.seq = 0
+    }
+
+    write(source: WritableNode<any>, tick: number): void {
+        let stats = this.sources.get(source)
+        if (!stats) this.sources.set(source, (stats = { id: idOf(source), name: NAMES.get(source) ?? null, writes: 0 }))
+        stats.writes++
+        this.changes.set(source, { seq: ++this.seq, sources: [source] })
+        this.events.push({ type: 'write', id: stats.id, tick, time: performance.now(), duration: 0 })
+    }
+
+    start(observer: ObserverNode<any>, tick: number): number {
+        const record = this.record(observer),
+            triggers = new Set<WritableNode<any>>()
+        // sources and memos changed since the last update are its triggers
+        this.collect(observer.src1, record.seq, triggers)
+        if (observer.srcs !== null) {
+            for (let i = 0; i < observer.srcs.length; ++i) this.collect(observer.srcs[i], record.seq, triggers)
+        }
+        const sources = [...triggers]
+        record.seq = ++this.seq
+        this.changes.set(observer, { seq: record.seq, sources })
+        record.stats.triggers.push({ tick, sources: sources.map(source => this.sources.get(source)!.id) })
+        const time = performance.now()
+        this.events.push((record.event = { type: 'run', id: record.stats.id, tick, time, duration: -1 }))
+        return time
+    }
+
+    end(observer: ObserverNode<any>, start: number): void {
+        const record = this.nodes.get(observer)!,
+            stats = record.stats,
+            duration = performance.now() - start
+        if (record.event !== null) {
+            record.event.duration = duration
+            record.event = null
+        }
+        stats.runs++
+        stats.total += duration
+        if (duration > stats.max) stats.max = duration
+    }
+
+    profile(): Profile {
+        const nodes: ProfiledNode[] = [],
+            sources: Record<number, ProfiledSource> = {}
+        this.nodes.forEach(record => {
+            const stats = record.stats
+            nodes.push({ ...stats, triggers: stats.triggers.map((trigger: ProfiledTrigger) => ({ ...trigger })) })
+        })
+        this.sources.forEach(stats => {
+            sources[stats.id] = { ...stats }
+        })
+        return {
+            nodes: nodes.sort((a, b) => b.total - a.total),
+            sources,
+            // updates that haven't ended (still running or failed) are skipped
+            events: this.events.filter(event => event.duration >= 0).map(event => ({ ...event }))
+        }
+    }
+
+    private record(observer: ObserverNode<any>): NodeRecord {
+        let record = this.nodes.get(observer)
+        if (!record) {
+            const stats: ProfiledNode = {
+                id: idOf(observer),
+                kind: kindOf(observer.type),
+                name: NAMES.get(observer) ?? null,
+                runs: 0,
+                total: 0,
+                max: 0,
+                triggers: []
+            }
+            this.nodes.set(observer, (record = { stats, seq: 0, event: null }))
+        }
+        return record
+    }
+
+    private collect(sub: Subscription | null, since: number, triggers: Set<WritableNode<any>>): void {
+        const change = sub !== null ? this.changes.get(sub.node) : undefined
+        if (change !== undefined && change.seq > since) {
+            for (let i = 0; i < change.sources.length; ++i) triggers.add(change.sources[i])
+        }
+    }
+}
@@ -1,10 +1,104 @@
-import {signal, suspend} from "./observable";
-import {suspendedAsynx} from "./asynx";
+import type {
+    AsyncMemo,
+    AsyncMemoContext,
+    AsyncMemoOptions,
+    AsynxResource,
+    HydratedResource,
+    Readable,
+    Resource,
+    ResourceFetcherContext,
+    ResourceHydration,
+    ResourceOptions,
+    ResourceState,
+    SourceResource
+} from "./types";
+import {
+    batch,
+    cleanup,
+    getOwner,
+    observer,
+    signal,
+    suspend,
+    untrack,
+    SUSPENSE,
+    SuspenseContext,
+    SuspensionSignal
+} from "./observable";
+import {suspendedAsynx, tick} from "./asynx";
+import {isFunction, lookup} from "./utils";
+import {CacheEntry, KeyedCache} from "./cache";
 
+type ResourceSource<U> = Readable<U | false | null | undefined>;
+type SourceFetcher<T, U> = (input: U, context: ResourceFetcherContext) => Promise<T> | T;
+
+let $$Hydration: ResourceHydration | null = null;
+
+/**
+ * Set Resource Hydration
+ *
+ * Set hooks used to serialize resources rendered on server and to hydrate them on client - it's
+ * called by DOM runtime, when hydration is enabled
+ * @param hydration - hydration hooks or null, to disable it
+ * @returns previous hooks
+ */
+export const setResourceHydration = (hydration: ResourceHydration | null): ResourceHydration | null => {
+    const prev = $$Hydration;
+    $$Hydration = hydration;
+    return prev;
+};
+
+/**
+ * Create Resource
+ *
+ * Create resource loaded manually, with `load(input)` - or, when it's created with source, resource
+ * re-fetched whenever the source changes. Fetching is skipped while the source is falsy and the
+ * previous request is aborted, when it's superseded.
+ * @param source - readable fetcher input
+ * @param fetcher - function returning promise (or value), called with the input and request context
+ * @param options - initial value and cache options
+ */
 export function createResource<T, U = undefined>(
     fetcher: (input: U) => Promise<T>,
-    options?: { initialValue?: T }
-) {
+    options?: ResourceOptions<T, U>
+): Resource<T, U>;
+export function createResource<T, U>(
+    source: ResourceSource<U>,
+    fetcher: SourceFetcher<T, U>,
+    options?: ResourceOptions<T, U>
+): SourceResource<T>;
+export function createResource<T, U>(
+    fetcherOrSource: ((input: U) => Promise<T>) | ResourceSource<U>,
+    fetcherOrOptions?: SourceFetcher<T, U> | ResourceOptions<T, U>,
+    sourceOptions?: ResourceOptions<T, U>
+): Resource<T, U> | SourceResource<T> {
+    if (isFunction(fetcherOrOptions)) {
+        return sourceResource(
+            fetcherOrSource as ResourceSource<U>,
+            hydratable(fetcherOrOptions),
+            sourceOptions || {},
+            immediate
+        );
+    }
+    const hydrated = hydratable(fetcherOrSource as (input: U) => Promise<T>);
+    const fetcher = (input: U) => new Promise<T>(resolve => resolve(hydrated(input)));
+    const options = fetcherOrOptions;
+
+    if (options?.cache) {
+        const cached = cachedResource(fetcher, options);
+        return {
+            data: cached.data,
+            error: cached.error,
+            loading: cached.loading,
+            load: (input?: U) => {
+                const entry = cached.select(input as U);
+                // Request for the key is already in-flight (also started by other resource) - in Suspense
+                // boundary, suspend on it, otherwise the in-flight request is returned
+                if (entry.promise !== null && lookup(getOwner(), SUSPENSE)) return suspend(entry.promise);
+                return cached.fetch(entry, input as U);
+            },
+        };
+    }
+
     const [data, setData] = signal<T | undefined>(options?.initialValue);
     const [error, setError] = signal<Error | null>(null);
     const [loading, setLoading] = signal(false);
@@ -39,10 +133,61 @@ export function createResource<T, U = undefined>(
     };
 }
 
+/**
+ * Create AsynX Resource
+ *
+ * Like createResource, but `load(input)` is suspending the Suspense boundary until the value is
+ * loaded, and values of resource with source are written in AsynX tick - so all the resources
+ * resolved in the same tick are updating the UI in single batch.
+ * @param source - readable fetcher input
+ * @param fetcher - function returning promise (or value), called with the input and request context
+ * @param options - initial value and cache options
+ */
 export function asynxResource<T, U = undefined>(
     fetcher: (input: U) => Promise<T>,
-    options?: { initialValue?: T }
-) {
+    options?: ResourceOptions<T, U>
+): AsynxResource<T, U>;
+export function asynxResource<T, U>(
+    source: ResourceSource<U>,
+    fetcher: SourceFetcher<T, U>,
+    options?: ResourceOptions<T, U>
+): SourceResource<T>;
+export function asynxResource<T, U>(
+    fetcherOrSource: ((input: U) => Promise<T>) | ResourceSource<U>,
+    fetcherOrOptions?: SourceFetcher<T, U> | ResourceOptions<T, U>,
+    sourceOptions?: ResourceOptions<T, U>
+): AsynxResource<T, U> | SourceResource<T> {
+    if (isFunction(fetcherOrOptions)) {
+        return sourceResource(
+            fetcherOrSource as ResourceSource<U>,
+            hydratable(fetcherOrOptions),
+            sourceOptions || {},
+            tick
+        );
+    }
+    const hydrated = hydratable(fetcherOrSource as (input: U) => Promise<T>);
+    const fetcher = (input: U) => new Promise<T>(resolve => resolve(hydrated(input)));
+    const options = fetcherOrOptions;
+
+    if (options?.cache) {
+        const cached = cachedResource(fetcher, options);
+        return {
+            data: cached.data,
+            error: cached.error,
+            loading: cached.loading,
+            load: (input?: U) => {
+                const entry = cached.select(input as U);
+                if (entry.value !== undefined) {
+                    // Cached value is rendered without suspending - stale one is revalidated in background,
+                    // and its error is stored in the entry
+                    cached.fetch(entry, input as U).catch(() => {});
+                    return;
+                }
+                return suspendedAsynx(() => cached.fetch(entry, input as U));
+            },
+        };
+    }
+
     const [data, setData] = signal<T | undefined>(options?.initialValue);
     const [error, setError] = signal<Error | null>(null);
     const [loading, setLoading] = signal(false);
@@ -64,4 +209,384 @@ export function asynxResource<T, U = undefined>(
         loading,
         load,
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Cached Resource
+ *
+ * Bind resource to the cache entry of its last input key - the entry is retained by the resource,
+ * until it's switched to other key or the resource owner is disposed
+ */
+function cachedResource<T, U>(fetcher: (input: U) => Promise<T>, options: ResourceOptions<T, U>) {
+    const cache = options.cache as KeyedCache;
+    const key = options.key || ((input: U) => [input]);
+    const [current, setCurrent] = signal<CacheEntry<T> | null>(null);
+
+    if (getOwner() !== null) {
+        cleanup(() => {
+            const entry: CacheEntry<T> | null = untrack(current);
+            if (entry) cache.release(entry, options.cacheTime);
+        });
+    }
+
+    const select = (input: U) => {
+        const entry = cache.entry<T>(key(input));
+        const prev: CacheEntry<T> | null = untrack(current);
+        if (entry !== prev) {
+            cache.retain(entry);
+            if (prev) cache.release(prev, options.cacheTime);
+            setCurrent(entry);
+        }
+        return entry;
+    };
+
+    return {
+        data: () => {
+            const entry = current();
+            const value = entry ? entry.data() : undefined;
+            return value === undefined ? options.initialValue : value;
+        },
+        error: () => {
+            const entry = current();
+            return entry ? entry.errorNode() : null;
+        },
+        loading: () => {
+            const entry = current();
+            return entry ? entry.loadingNode() : false;
+        },
+        select,
+        fetch: (entry: CacheEntry<T>, input: U, staleTime = options.staleTime) =>
+            cache.fetch(entry, () => fetcher(input), staleTime),
+    };
+}
+
+/**
+ * Source Resource
+ *
+ * Resource re-fetched by observer tracking its source and refetch trigger - values are written
+ * with `commit`, that is running the writes immediately or in AsynX tick
+ */
+function sourceResource<T, U>(
+    source: ResourceSource<U>,
+    fetcher: SourceFetcher<T, U>,
+    options: ResourceOptions<T, U>,
+    commit: (fn: () => void) => void
+): SourceResource<T> {
+    if (options.cache) return cachedSourceResource(source, fetcher, options);
+
+    const [value, setValue] = signal<T | undefined>(options.initialValue);
+    const [error, setError] = signal<Error | null>(null);
+    const [loading, setLoading] = signal(false);
+    const [refresh, setRefresh] = signal<undefined>(undefined, false);
+    const waiting = new Set<SuspenseContext>();
+    let version = 0,
+        pending = false,
+        request: Promise<T> | undefined;
+
+    const release = () => {
+        const contexts = [...waiting];
+        waiting.clear();
+        return contexts;
+    };
+
+    const settle = (run: number, result: T, write = commit) => {
+        if (run !== version) return;
+        pending = false;
+        write(() => {
+            batch(() => {
+                setValue(() => result);
+                setError(null);
+                setLoading(false);
+            });
+            for (const suspense of release()) suspense.decrement();
+        });
+    };
+
+    const fail = (run: number, err: unknown) => {
+        if (run !== version) return;
+        const e = err instanceof Error ? err : new Error(String(err));
+        pending = false;
+        commit(() => {
+            batch(() => {
+                setError(e);
+                setLoading(false);
+            });
+            for (const suspense of release()) suspense.setError(e);
+        });
+    };
+
+    observer(() => {
+        const input = source(),
+            run = ++version;
+        refresh();
+        if (!input) {
+            // Falsy source is dropping the in-flight request - the last value is kept
+            request = undefined;
+            if (pending) {
+                pending = false;
+                setLoading(false);
+                for (const suspense of release()) suspense.decrement();
+            }
+            return;
+        }
+        const controller = new AbortController();
+        // Cleanup is run before re-run and on dispose, so the previous request is aborted
+        cleanup(() => controller.abort());
+        let result: Promise<T> | T;
+        try {
+            result = untrack(() => fetcher(input, {signal: controller.signal}));
+        } catch (err) {
+            request = Promise.reject(err);
+            request.catch(() => {});
+            fail(run, err);
+            return;
+        }
+        if (!(result instanceof Promise)) {
+            request = Promise.resolve(result);
+            // Synchronous (i.e. hydrated) value is written immediately, so it's rendered in the same pass
+            return settle(run, result, immediate);
+        }
+        request = result;
+        pending = true;
+        untrack(loading) || setLoading(true);
+        result.then(v => settle(run, v), err => fail(run, err));
+    });
+
+    const data = () => {
+        const current = value();
+        // Loading is tracked, so the content reading data is suspended again, when it's refreshing
+        loading();
+        const suspense = pending && renderingSuspense();
+        if (suspense) {
+            if (!waiting.has(suspense)) {
+                waiting.add(suspense);
+                suspense.increment();
+            }
+            throw new SuspensionSignal();
+        }
+        return current;
+    };
+
+    return {
+        data,
+        latest: value,
+        error,
+        loading,
+        state: () => resourceState(value() !== undefined, error() !== null, loading()),
+        refetch: () => {
+            setRefresh(undefined);
+            return untrack(source) ? request : undefined;
+        },
+    };
+}
+
+/**
+ * Cached Source Resource
+ *
+ * Resource with source, bound to the cache entry of its input - requests are shared by resources
+ * using the same key, so they aren't aborted
+ */
+function cachedSourceResource<T, U>(
+    source: ResourceSource<U>,
+    fetcher: SourceFetcher<T, U>,
+    options: ResourceOptions<T, U>
+): SourceResource<T> {
+    const cached = cachedResource(
+        (input: U) => new Promise<T>(resolve => resolve(fetcher(input, {signal: new AbortController().signal}))),
+        options
+    );
+    const [refresh, setRefresh] = signal<undefined>(undefined, false);
+    const waiting = new Set<SuspenseContext>();
+    let forced = false,
+        request: Promise<T> | undefined,
+        entry: CacheEntry<T> | null = null;
+
+    observer(() => {
+        const input = source();
+        refresh();
+        if (!input) {
+            request = undefined;
+            return;
+        }
+        entry = cached.select(input);
+        request = cached.fetch(entry, input, forced ? 0 : options.staleTime);
+        forced = false;
+        // Errors are stored in the entry
+        request.catch(() => {});
+    });
+
+    const data = () => {
+        const current = cached.data();
+        cached.loading();
+        const suspense = entry && entry.promise && renderingSuspense();
+        if (suspense) {
+            if (!waiting.has(suspense)) {
+                waiting.add(suspense);
+                suspense.increment();
+                // Entry observables are written in AsynX tick, so the boundary is released after them
+                entry!.promise!.then(
+                    () => tick(() => {
+                        waiting.delete(suspense);
+                        suspense.decrement();
+                    }),
+                    err => tick(() => {
+                        waiting.delete(suspense);
+                        suspense.setError(err instanceof Error ? err : new Error(String(err)));
+                    })
+                );
+            }
+            throw new SuspensionSignal();
+        }
+        return current;
+    };
+
+    return {
+        data,
+        latest: cached.data,
+        error: cached.error,
+        loading: cached.loading,
+        state: () => resourceState(cached.data() !== undefined, cached.error() !== null, cached.loading()),
+        refetch: () => {
+            forced = true;
+            setRefresh(undefined);
+            return untrack(source) ? request : undefined;
+        },
+    };
+}
+
+/**
+ * Rendering Suspense
+ *
+ * Get the Suspense boundary rendering current content - pending resource read outside a rendered
+ * boundary isn't suspending, so the last value is read
+ */
+function renderingSuspense(): SuspenseContext | null {
+    const suspense = lookup<SuspenseContext>(getOwner(), SUSPENSE);
+    return suspense && suspense.rendering ? suspense : null;
+}
+
+/**
+ * Hydratable
+ *
+ * Bind the first request of resource created in hydration context to its hydration key - on server,
+ * the request is registered for serialization, and on client, the serialized state is restored
+ * instead of fetching. Resolved state is returned synchronously.
+ */
+function hydratable<T, U, C>(fetcher: (input: U, context: C) => Promise<T> | T): (input: U, context?: C) => Promise<T> | T {
+    const hydration = $$Hydration;
+    const key = hydration && hydration.key();
+    if (!key) return fetcher as (input: U, context?: C) => Promise<T> | T;
+    let first = true;
+    return (input: U, context?: C) => {
+        if (!first) return fetcher(input, context as C);
+        first = false;
+        const hydrated = hydration!.load<T>(key);
+        if (hydrated === undefined) {
+            const result = fetcher(input, context as C);
+            hydration!.register(key, result);
+            return result;
+        }
+        return hydrated instanceof Promise
+            ? hydrated.then((state: HydratedResource<T>) => restore<T>(state))
+            : restore<T>(hydrated);
+    };
+}
+
+function restore<T>(hydrated: HydratedResource<T>): T {
+    if ("error" in hydrated) throw hydrated.error;
+    return hydrated.value;
+}
+
+function resourceState(resolved: boolean, errored: boolean, loading: boolean): ResourceState {
+    if (loading) return resolved ? "refreshing" : "pending";
+    if (errored) return "errored";
+    return resolved ? "ready" : "unresolved";
+}
+
+const immediate = (fn: () => void) => fn();
+
+/**
+ * Async Memo
+ *
+ * Async derived value - dependencies are tracked on the synchronous part of `fn`, and when
+ * they change, the in-flight run is aborted through its AbortSignal and `fn` is re-run. Results
+ * of superseded runs are dropped. When read in Suspense content while pending, it's suspending
+ * the boundary until the value is resolved.
+ * @param fn - function returning promise (or value), called with the last value and run context
+ * @param options - initial value
+ */
+export function asyncMemo<T>(
+    fn: (prev: T | undefined, context: AsyncMemoContext) => Promise<T> | T,
+    options: AsyncMemoOptions<T> = {}
+): AsyncMemo<T> {
+    const [value, setValue] = signal<T | undefined>(options.initialValue);
+    const [loading, setLoading] = signal(false);
+    const [error, setError] = signal<Error | null>(null);
+    const waiting = new Set<SuspenseContext>();
+    let version = 0,
+        pending = false;
+
+    const settle = (run: number, result: T) => {
+        if (run !== version) return;
+        pending = false;
+        batch(() => {
+            setValue(() => result);
+            setError(null);
+            setLoading(false);
+        });
+        for (const suspense of release()) suspense.decrement();
+    };
+
+    const fail = (run: number, err: unknown) => {
+        if (run !== version) return;
+        const e = err instanceof Error ? err : new Error(String(err));
+        pending = false;
+        batch(() => {
+            setError(e);
+            setLoading(false);
+        });
+        for (const suspense of release()) suspense.setError(e);
+    };
+
+    const release = () => {
+        const contexts = [...waiting];
+        waiting.clear();
+        return contexts;
+    };
+
+    observer(() => {
+        const run = ++version,
+            controller = new AbortController();
+        // Cleanup is run before re-run and on dispose, so the previous run is aborted
+        cleanup(() => controller.abort());
+        let result: Promise<T> | T;
+        try {
+            result = fn(untrack(value), {signal: controller.signal});
+        } catch (err) {
+            fail(run, err);
+            return;
+        }
+        if (!(result instanceof Promise)) return settle(run, result);
+        pending = true;
+        untrack(loading) || setLoading(true);
+        result.then(v => settle(run, v), err => fail(run, err));
+    });
+
+    const read = (() => {
+        const current = value();
+        if (pending) {
+            const suspense = lookup<SuspenseContext>(getOwner(), SUSPENSE);
+            if (suspense && suspense.rendering) {
+                if (!waiting.has(suspense)) {
+                    waiting.add(suspense);
+                    suspense.increment();
+                }
+                throw new SuspensionSignal();
+            }
+        }
+        return current;
+    }) as AsyncMemo<T>;
+    read.loading = loading;
+    read.error = error;
+    return read;
+}
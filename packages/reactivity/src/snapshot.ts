@@ -0,0 +1,88 @@
+import type { ObserverNode, SnapshotData } from './types'
+import type { LabelEntry } from './inspector'
+import { isObservable, LABELS } from './inspector'
+import { batch, getOwner } from './observable'
+import { $RAW, mergeStore, unwrap } from './store'
+
+/* ************************************************************************ *
+ * Reactive Graph Snapshot                                                  *
+ * ************************************************************************ *
+ * - snapshot is capturing values of labeled observables and stores, that   *
+ *   are registered in the owner subtree - labels are used as the keys, so  *
+ *   the same tree, created elsewhere (other thread, server, after reload)  *
+ *   could be restored from the data                                        *
+ * - captured values are JSON-safe (stores and nested proxies are          *
+ *   unwrapped) and restoring is writing all of them in single batch, so    *
+ *   every observer is re-executed at most once                             *
+ * ************************************************************************ */
+
+/**
+ * Snapshot
+ *
+ * Capture JSON-safe values of all labeled observables and stores in the owner
+ * subtree (current Owner by default) - keyed by their labels
+ * @param owner - owner to start from - i.e. `getOwner()` called in `appRoot`
+ */
+export function snapshot(owner: ObserverNode<any> | null = getOwner()): SnapshotData {
+    if (owner === null) throw new Error('Cannot snapshot graph without an owner')
+    const data: SnapshotData = {}
+    collect(owner, entry => {
+        const [name, target] = entry
+        if (name in data) console.warn(`Snapshot label "${name}" is not unique - the last value is captured`)
+        data[name] = toJSON(isObservable(target) ? target.__src__.value : target)
+    })
+    return data
+}
+
+/**
+ * Restore
+ *
+ * Write values from snapshot data back to labeled observables and stores in the
+ * owner subtree (current Owner by default) - in single batch. Labels missing in
+ * the data are skipped, and store fields missing in the data (functions, undefined)
+ * are kept
+ * @param owner - owner to start from
+ * @param data - data captured by snapshot()
+ */
+export function restore(owner: ObserverNode<any> | null, data: SnapshotData): void {
+    if (owner === null) throw new Error('Cannot restore graph without an owner')
+    batch(() =>
+        collect(owner, entry => {
+            const [name, target] = entry
+            if (!(name in data)) return
+            const value = data[name]
+            if (isObservable(target)) target(() => value)
+            else if (isStore(target)) mergeStore(target, value)
+        })
+    )
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+function collect(observer: ObserverNode<any>, fn: (entry: LabelEntry) => void): void {
+    const labels = observer.ctx && (observer.ctx[LABELS] as LabelEntry[] | undefined),
+        owned = observer.owned
+    if (labels) {
+        for (let i = 0; i < labels.length; ++i) {
+            // only writable targets are captured - graph nodes labeled directly are skipped
+            if (isObservable(labels[i][1]) || isStore(labels[i][1])) fn(labels[i])
+        }
+    }
+    if (owned !== null) {
+        for (let i = 0; i < owned.length; ++i) collect(owned[i], fn)
+    }
+}
+
+function isStore(target: unknown): target is object {
+    return target !== null && typeof target === 'object' && !!(target as any)[$RAW]
+}
+
+function toJSON(value: unknown): unknown {
+    // stringify is dropping functions and undefined, converting dates and throwing on cycles
+    const json = JSON.stringify(unwrap(value))
+    return json === undefined ? null : JSON.parse(json)
+}
@@ -0,0 +1,358 @@
+import type { Observable, ReconcileOptions, SetStore, Store, StoreNodes } from './types'
+import { batch, isListening, observable } from './observable'
+
+/* ************************************************************************** *
+ * Store - deep reactive state                                                *
+ * ************************************************************************** *
+ * - store wraps plain objects and arrays in read-only proxies, that are       *
+ *   lazily creating one observable Source per property, but only on tracked   *
+ *   read - untracked reads are just plain property access                     *
+ * - raw state is always kept unwrapped (without proxies) and every write is   *
+ *   going through setter, in single batch - so only observers of touched      *
+ *   properties are re-executed, once per write                                *
+ * - every wrapped object has also special self node - it's notified when      *
+ *   object keys are added/removed, or on any array item change, and it's      *
+ *   tracked by iteration (ownKeys) and by $TRACK read in mapArray/indexArray  *
+ * ************************************************************************** */
+
+export const $RAW = Symbol('store-raw'),
+    $TRACK = Symbol('store-track')
+
+const $SELF = Symbol('store-self'),
+    NODES = new WeakMap<object, StoreNodes>(),
+    PROXIES = new WeakMap<object, any>(),
+    WRITABLE = new WeakMap<object, any>()
+
+/**
+ * Store
+ *
+ * Create deep reactive store and return the store signal - read-only proxy of
+ * the state and its setter
+ * @param state - initial state object or array
+ */
+export function store<T extends object>(state: T): [Store<T>, SetStore<T>] {
+    const raw = unwrap(state)
+    const setStore = ((...path: any[]) => {
+        batch(() => updatePath(raw, path))
+    }) as SetStore<T>
+    return [wrap(raw), setStore]
+}
+
+/**
+ * Produce
+ *
+ * Create setter value mapper, that's running mutations on writable store proxy -
+ * used for array mutations (push/splice/etc.) and multiple writes in one mapper
+ * @param fn - mutating function
+ */
+export function produce<T>(fn: (state: T) => void): (state: T) => T {
+    return state => {
+        if (isWrappable(state)) fn(wrapWritable(state))
+        return state
+    }
+}
+
+/**
+ * Reconcile
+ *
+ * Create setter value mapper, that's diffing the next immutable value (i.e. API
+ * response payload) with the current state and writing only the changed values -
+ * array items are matched by `key` (`'id'` by default), so their nodes are kept
+ * @param value - next value
+ * @param options - `key` to match array items and `merge` mode, that's matching
+ * array items by index, when they haven't got a key
+ */
+export function reconcile<T>(value: T, options: ReconcileOptions = {}): (state: T) => T {
+    const { merge = false, key = 'id' } = options,
+        next = unwrap(value)
+    return state => {
+        if (!isWrappable(state) || !isWrappable(next)) return next
+        const parent = { state }
+        applyState(next, parent, 'state', merge, key)
+        return parent.state
+    }
+}
+
+/**
+ * Unwrap
+ *
+ * Get raw (unwrapped) value of store proxy - nested proxies are also unwrapped
+ * @param item - store proxy or value containing proxies
+ */
+export function unwrap<T>(item: T, seen?: Set<unknown>): T {
+    let raw: T
+    if ((raw = item != null && (item as any)[$RAW])) return raw
+    if (!isWrappable(item) || (seen && seen.has(item))) return item
+    seen || (seen = new Set())
+    seen.add(item)
+    const obj = item as any
+    for (const key of Object.keys(obj)) {
+        const value = obj[key],
+            unwrapped = unwrap(value, seen)
+        if (unwrapped !== value) obj[key] = unwrapped
+    }
+    return item
+}
+
+export function isWrappable(value: unknown): value is Record<PropertyKey, any> {
+    if (value === null || typeof value !== 'object') return false
+    const proto = Object.getPrototypeOf(value)
+    return proto === Object.prototype || proto === null || Array.isArray(value)
+}
+
+/**
+ * Merge the next value into store state in single batch - only keys of the value are
+ * reconciled, other keys are kept. It's internal setter for modules, that haven't got
+ * access to the store setter
+ * @param state - store proxy
+ * @param value - next state
+ */
+export function mergeStore(state: object, value: unknown): void {
+    const raw = unwrap(state)
+    batch(() => mergeState(raw, value))
+}
+
+/* ********************************************************************* *
+ | --------------------------------------------------------------------- |
+ *      |               INTERNAL IMPLEMENTATION                    |     *
+ | --------------------------------------------------------------------- |
+ * ********************************************************************* */
+
+const readTraps: ProxyHandler<any> = {
+    get(target, property, receiver) {
+        if (property === $RAW) return target
+        if (property === $TRACK) {
+            trackSelf(target)
+            return receiver
+        }
+        const value = target[property]
+        if (typeof property !== 'symbol' && isListening()) {
+            const desc = Object.getOwnPropertyDescriptor(target, property)
+            if (typeof value !== 'function' || (desc && desc.writable)) {
+                getNode(target, property, value)()
+            }
+        }
+        return isWrappable(value) ? wrap(value) : value
+    },
+    has(target, property) {
+        if (property === $RAW || property === $TRACK) return true
+        if (typeof property !== 'symbol' && isListening()) getNode(target, property, target[property])()
+        return property in target
+    },
+    ownKeys(target) {
+        trackSelf(target)
+        return Reflect.ownKeys(target)
+    },
+    set() {
+        console.warn('Cannot mutate a store directly - use the store setter')
+        return true
+    },
+    deleteProperty() {
+        console.warn('Cannot mutate a store directly - use the store setter')
+        return true
+    }
+}
+
+const writeTraps: ProxyHandler<any> = {
+    get(target, property) {
+        if (property === $RAW) return target
+        const value = target[property]
+        return isWrappable(value) ? wrapWritable(value) : value
+    },
+    set(target, property, value) {
+        batch(() => setProperty(target, property, unwrap(value)))
+        return true
+    },
+    deleteProperty(target, property) {
+        batch(() => setProperty(target, property, undefined, true))
+        return true
+    }
+}
+
+function wrap<T extends object>(value: T): T {
+    let proxy = PROXIES.get(value)
+    if (!proxy) PROXIES.set(value, (proxy = new Proxy(value, readTraps)))
+    return proxy
+}
+
+function wrapWritable<T extends object>(value: T): T {
+    let proxy = WRITABLE.get(value)
+    if (!proxy) WRITABLE.set(value, (proxy = new Proxy(value, writeTraps)))
+    return proxy
+}
+
+function getNodes(target: object): StoreNodes {
+    let nodes = NODES.get(target)
+    if (!nodes) NODES.set(target, (nodes = Object.create(null) as StoreNodes))
+    return nodes
+}
+
+function getNode(target: object, property: PropertyKey, value: unknown): Observable<any> {
+    const nodes = getNodes(target)
+    return nodes[property] || (nodes[property] = observable(value))
+}
+
+function trackSelf(target: object): void {
+    if (isListening()) {
+        const nodes = getNodes(target)
+        ;(nodes[$SELF] || (nodes[$SELF] = observable<undefined>(undefined, false)))()
+    }
+}
+
+function setProperty(target: any, property: PropertyKey, value: unknown, deleting = false): void {
+    if (!deleting && target[property] === value) return
+    const prev = target[property],
+        len = target.length
+    if (value === undefined || deleting) delete target[property]
+    else target[property] = value
+    const nodes = NODES.get(target)
+    if (nodes) {
+        let node: Observable<any> | undefined
+        if ((node = nodes[property])) node(value)
+        if (Array.isArray(target)) {
+            if (target.length !== len && (node = nodes.length)) node(target.length)
+            if ((node = nodes[$SELF])) node(undefined)
+        } else if (prev === undefined !== (value === undefined) && (node = nodes[$SELF])) node(undefined)
+    }
+}
+
+function mergeStoreNode(state: any, value: any): void {
+    const keys = Object.keys(value)
+    for (let i = 0; i < keys.length; i++) setProperty(state, keys[i], unwrap(value[keys[i]]))
+}
+
+// Objects are merged key by key, arrays and other values are reconciled
+function mergeState(state: any, value: any): void {
+    if (!isWrappable(state) || Array.isArray(state) || !isWrappable(value) || Array.isArray(value)) {
+        updatePath(state, [reconcile(value)])
+        return
+    }
+    const keys = Object.keys(value)
+    for (let i = 0; i < keys.length; i++) {
+        const prev = state[keys[i]],
+            next = value[keys[i]]
+        if (isWrappable(prev) && !Array.isArray(prev) && isWrappable(next) && !Array.isArray(next)) {
+            mergeState(prev, next)
+        } else updatePath(state, [keys[i], reconcile(next)])
+    }
+}
+
+function updatePath(current: any, path: any[], traversed: PropertyKey[] = []): void {
+    let part: any,
+        prev = current
+    if (path.length > 1) {
+        part = path.shift()
+        const isArray = Array.isArray(current)
+        if (Array.isArray(part)) {
+            // Array of keys - update every listed key
+            for (let i = 0; i < part.length; i++) updatePath(current, [part[i]].concat(path), traversed)
+            return
+        } else if (isArray && typeof part === 'function') {
+            // Filter function - update every array item, that's passing the filter
+            for (let i = 0; i < current.length; i++) {
+                if (part(current[i], i)) updatePath(current, [i].concat(path), traversed)
+            }
+            return
+        } else if (path.length > 1) {
+            updatePath(current[part], path, [part].concat(traversed))
+            return
+        }
+        prev = current[part]
+        traversed = [part].concat(traversed)
+    }
+    let value = path[0]
+    if (typeof value === 'function') {
+        value = value(prev, traversed)
+        if (value === prev) return
+    }
+    value = unwrap(value)
+    if (part === undefined && value == undefined) return
+    if (part === undefined || (isWrappable(prev) && isWrappable(value) && !Array.isArray(value))) {
+        mergeStoreNode(prev, value)
+    } else setProperty(current, part, value)
+}
+
+function keyOf(item: any, key: string): unknown {
+    return key && isWrappable(item) ? (item as any)[key] : item
+}
+
+function isSame(prev: any, next: any, key: string): boolean {
+    return prev === next || (!!key && isWrappable(prev) && isWrappable(next) && (prev as any)[key] === (next as any)[key])
+}
+
+function applyState(target: any, parent: any, property: PropertyKey, merge: boolean, key: string): void {
+    const previous = parent[property]
+    if (target === previous) return
+    if (
+        !isWrappable(target) ||
+        !isWrappable(previous) ||
+        Array.isArray(target) !== Array.isArray(previous) ||
+        (key && (target as any)[key] !== (previous as any)[key])
+    ) {
+        setProperty(parent, property, target)
+        return
+    }
+    if (Array.isArray(target)) {
+        if (target.length && previous.length && (!merge || (key && target[0] && target[0][key] != null))) {
+            // Keyed diff - based on the same prefix/suffix + indexing algorithm as mapArray
+            let i: number, j: number, start: number, end: number, newEnd: number, item: any
+            for (
+                start = 0, end = Math.min(previous.length, target.length);
+                start < end && isSame(previous[start], target[start], key);
+                start++
+            ) {
+                applyState(target[start], previous, start, merge, key)
+            }
+            const temp = new Array(target.length),
+                newIndices = new Map<unknown, number>()
+            for (
+                end = previous.length - 1, newEnd = target.length - 1;
+                end >= start && newEnd >= start && isSame(previous[end], target[newEnd], key);
+                end--, newEnd--
+            ) {
+                temp[newEnd] = previous[end]
+            }
+            if (start > newEnd || start > end) {
+                for (j = start; j <= newEnd; j++) setProperty(previous, j, target[j])
+                for (; j < target.length; j++) {
+                    setProperty(previous, j, temp[j])
+                    applyState(target[j], previous, j, merge, key)
+                }
+                if (previous.length > target.length) setProperty(previous, 'length', target.length)
+                return
+            }
+            const newIndicesNext = new Array(newEnd + 1)
+            for (j = newEnd; j >= start; j--) {
+                const k = keyOf(target[j], key)
+                i = newIndices.get(k)!
+                newIndicesNext[j] = i === undefined ? -1 : i
+                newIndices.set(k, j)
+            }
+            for (i = start; i <= end; i++) {
+                item = previous[i]
+                const k = keyOf(item, key)
+                j = newIndices.get(k)!
+                if (j !== undefined && j !== -1) {
+                    temp[j] = item
+                    newIndices.set(k, newIndicesNext[j])
+                }
+            }
+            for (j = start; j < target.length; j++) {
+                if (j in temp) {
+                    setProperty(previous, j, temp[j])
+                    applyState(target[j], previous, j, merge, key)
+                } else setProperty(previous, j, target[j])
+            }
+        } else {
+            for (let i = 0; i < target.length; i++) applyState(target[i], previous, i, merge, key)
+        }
+        if (previous.length > target.length) setProperty(previous, 'length', target.length)
+        return
+    }
+    const targetKeys = Object.keys(target)
+    for (let i = 0; i < targetKeys.length; i++) applyState(target[targetKeys[i]], previous, targetKeys[i], merge, key)
+    const previousKeys = Object.keys(previous)
+    for (let i = 0; i < previousKeys.length; i++) {
+        if (target[previousKeys[i]] === undefined) setProperty(previous, previousKeys[i], undefined, true)
+    }
+}
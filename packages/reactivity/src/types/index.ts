@@ -20,7 +20,9 @@ export interface ObservableCreator {
 
     <T>(value: T, equals: Equals<T>): Observable<T>
 
-    <T>(value: T, equals?: Equals<T>): Observable<T>
+    <T>(value: T, options: SourceOptions<T>): Observable<T>
+
+    <T>(value: T, equals?: Equals<T> | SourceOptions<T>): Observable<T>
 }
 
 /**
@@ -36,7 +38,9 @@ export interface SignalCreator {
 
     <T>(value: T, equals: Equals<T>): ObservableSignal<T>
 
-    <T>(value: T, equals?: Equals<T>): ObservableSignal<T>
+    <T>(value: T, options: SourceOptions<T>): ObservableSignal<T>
+
+    <T>(value: T, equals?: Equals<T> | SourceOptions<T>): ObservableSignal<T>
 }
 
 export interface ObservableSignal<T> extends Array<Readable<T> | Writable<T>> {
@@ -83,6 +87,28 @@ export interface MemoCreator {
 
 export type Equals<T> = false | ((previousValue: T, nextValue: T) => boolean)
 
+/**
+ * Source Options
+ *
+ * Options form of observable/signal second argument - equality check and observation lifecycle
+ * hooks, used to start external resources (sockets, timers, DOM observers) lazily and stop them,
+ * when nothing in the graph is reading them anymore
+ */
+export interface SourceOptions<T> {
+    equals?: Equals<T>
+
+    /**
+     * Called when the first observer is connected to the source
+     */
+    onObserved?: () => void
+
+    /**
+     * Called when the last observer is disconnected from the source - when it's disconnected in
+     * update, it's called after the update, so observers re-reading the source aren't restarting it
+     */
+    onUnobserved?: () => void
+}
+
 /* ******************************* *
  * Observable Controller functions *
  * ******************************* */
@@ -162,6 +188,7 @@ export interface ConnectableNode {
 }
 
 export interface Subscription {
+    node: ObservableNode<any>
     obs1: ObserverNode<any> | null
     obs1Slot: number
     obs: ObserverNode<any>[] | null
@@ -289,3 +316,688 @@ export interface PoolItem<T, U> {
     index?: Observable<number>
     source?: Observable<T>
 }
+
+/* ****************************** *
+ * Reactive Graph Inspector types *
+ * ****************************** */
+
+/**
+ * Kind of inspected graph node - `source` for observable data sources and
+ * observer kinds, mapped from `ObserverType`
+ */
+export type InspectedKind =
+    | 'source'
+    | 'memo'
+    | 'observer'
+    | 'renderEffect'
+    | 'effect'
+    | 'computed'
+    | 'root'
+    | 'remountableRoot'
+
+/**
+ * Readable names of `State` bit flags
+ */
+export type InspectedFlag = 'stale' | 'pending' | 'pendingDisposal' | 'running' | 'disposed'
+
+/**
+ * Inspected Node
+ *
+ * Plain, detached description of single graph node - all the relations are
+ * stored as node ids, that are stable between inspections of the same graph
+ */
+export interface InspectedNode {
+    id: number
+    kind: InspectedKind
+    name: string | null
+    state: State
+    flags: InspectedFlag[]
+    value: unknown
+    owner: number | null
+    ownerChain: number[]
+    context: string[]
+    owned: number[]
+    sources: number[]
+    observers: number[]
+}
+
+/**
+ * Graph Snapshot
+ *
+ * Result of inspection - id of inspected root and all the nodes reachable from
+ * it (owned subtree, with their sources and observers)
+ */
+export interface GraphSnapshot {
+    root: number
+    nodes: Record<number, InspectedNode>
+}
+
+/**
+ * JSON-safe values of labeled observables and stores, captured by snapshot() -
+ * keyed by labels
+ */
+export type SnapshotData = Record<string, unknown>
+
+/**
+ * Dev Mode Options
+ *
+ * Diagnostics enabled by setDevMode() - they have small runtime cost, so they are off by default
+ */
+export interface DevModeOptions {
+    /**
+     * Max number of update ticks in single flush (including ticks replayed after effects), before
+     * it's aborted with RunawayUpdateError - default 1000
+     */
+    maxIterations?: number
+}
+
+/* *********** *
+ * Store types *
+ * *********** */
+
+/**
+ * Store<T> - read-only, deep reactive proxy of the store state
+ */
+export type Store<T> = T
+
+/**
+ * Store nodes - lazily created observable nodes of single wrapped object, by property
+ */
+export type StoreNodes = Record<PropertyKey, Observable<any>>
+
+/**
+ * Path part - property key, array of keys or (for arrays) items filter
+ */
+export type StorePathPart<T, K extends keyof T> =
+    | K
+    | readonly K[]
+    | (T extends readonly (infer I)[] ? (item: I, index: number) => boolean : never)
+
+/**
+ * Value set on the end of path - for objects, the partial value is shallowly merged
+ * into the current one. Mapper function receives the current value and the traversed path
+ */
+export type StoreSetterValue<T> =
+    | T
+    | (T extends readonly unknown[] ? never : T extends object ? Partial<T> : never)
+    | ((prev: T, traversed: PropertyKey[]) => T | (T extends readonly unknown[] ? never : Partial<T>))
+
+/**
+ * Store Setter
+ *
+ * Write the value on the end of the path - i.e. `setStore('todos', 3, 'done', true)`
+ */
+export interface SetStore<T> {
+    <K1 extends keyof T, K2 extends keyof T[K1], K3 extends keyof T[K1][K2]>(
+        k1: StorePathPart<T, K1>,
+        k2: StorePathPart<T[K1], K2>,
+        k3: StorePathPart<T[K1][K2], K3>,
+        value: StoreSetterValue<T[K1][K2][K3]>
+    ): void
+
+    <K1 extends keyof T, K2 extends keyof T[K1]>(
+        k1: StorePathPart<T, K1>,
+        k2: StorePathPart<T[K1], K2>,
+        value: StoreSetterValue<T[K1][K2]>
+    ): void
+
+    <K1 extends keyof T>(k1: StorePathPart<T, K1>, value: StoreSetterValue<T[K1]>): void
+
+    (value: StoreSetterValue<T>): void
+
+    (...pathAndValue: any[]): void
+}
+
+export interface ReconcileOptions {
+    key?: string
+    merge?: boolean
+}
+
+/* ********************* *
+ * Reactive Array types  *
+ * ********************* */
+
+/**
+ * Operation recorded by reactive array - `set` is kept apart from `splice`, so index mapped
+ * lists could just update item value, instead of re-creating it
+ */
+export type ArrayOp<T> =
+    | { type: 'splice'; index: number; remove: number; items: T[] }
+    | { type: 'move'; from: number; to: number }
+    | { type: 'set'; index: number; item: T }
+
+/**
+ * Position of array operations consumer in reactive array operations log
+ */
+export interface ArrayOpsCursor {
+    log: object | null
+    version: number
+}
+
+export interface ReactiveArray<T> extends Readable<readonly T[]> {
+    push(...items: T[]): number
+    splice(start: number, deleteCount?: number, ...items: T[]): T[]
+    move(from: number, to: number): void
+    set(index: number, item: T): void
+}
+
+/* ***************** *
+ * Async Memo types  *
+ * ***************** */
+
+export interface AsyncMemoContext {
+    /**
+     * Aborted, when the run is superseded by the next run or async memo is disposed
+     */
+    signal: AbortSignal
+}
+
+export interface AsyncMemoOptions<T> {
+    initialValue?: T
+}
+
+/**
+ * Read the last resolved value - in Suspense content, pending async memo is suspending the boundary
+ */
+export interface AsyncMemo<T> extends Readable<T | undefined> {
+    loading: Readable<boolean>
+    error: Readable<Error | null>
+}
+
+/* **************** *
+ * Profiler types   *
+ * **************** */
+
+/**
+ * Profiled Trigger
+ *
+ * Source changes, that triggered single observer update - sources are ids of written sources
+ * (also through memos updated in between), that are keys of `Profile.sources`
+ */
+export interface ProfiledTrigger {
+    tick: number
+    sources: number[]
+}
+
+/**
+ * Profiled Node
+ *
+ * Updates statistics of single observer - durations are in milliseconds and are inclusive, so
+ * they contain also updates of memos lifted by the observer
+ */
+export interface ProfiledNode {
+    id: number
+    kind: InspectedKind
+    name: string | null
+    runs: number
+    total: number
+    max: number
+    triggers: ProfiledTrigger[]
+}
+
+export interface ProfiledSource {
+    id: number
+    name: string | null
+    writes: number
+}
+
+/**
+ * Profile Event
+ *
+ * Single recorded update (`run`) or source change (`write`) - time is in milliseconds
+ */
+export interface ProfileEvent {
+    type: 'run' | 'write'
+    id: number
+    tick: number
+    time: number
+    duration: number
+}
+
+/**
+ * Profile
+ *
+ * Data recorded by profiler - nodes are sorted by total duration, events are in recording order
+ */
+export interface Profile {
+    nodes: ProfiledNode[]
+    sources: Record<number, ProfiledSource>
+    events: ProfileEvent[]
+}
+
+/* **************** *
+ * Suspense types   *
+ * **************** */
+
+/**
+ * Suspense Options
+ *
+ * Fallback timing - `delay` before the fallback is shown (previous content, or nothing, is kept
+ * rendered until then) and `minDuration` the shown fallback stays, to avoid flashing it on fast
+ * responses. Both are in milliseconds and scheduled on AsynX timeline
+ */
+export interface SuspenseOptions {
+    delay?: number
+    minDuration?: number
+    errorAsObservable?: boolean
+}
+
+/**
+ * Order, in which suspense list is revealing its boundaries content - `forwards` (boundary is
+ * revealed, when it and all the previous boundaries are ready), `backwards` (the same from the
+ * last one) or `together` (when all are ready)
+ */
+export type SuspenseRevealOrder = 'forwards' | 'backwards' | 'together'
+
+/**
+ * Fallbacks of unrevealed boundaries - `collapsed` is rendering only the next fallback (in reveal
+ * order) and `hidden` is rendering none of them. By default, all fallbacks are rendered
+ */
+export type SuspenseTail = 'collapsed' | 'hidden'
+
+export interface SuspenseListOptions {
+    revealOrder?: SuspenseRevealOrder
+    tail?: SuspenseTail
+}
+
+/* ********************** *
+ * Resource Cache types   *
+ * ********************** */
+
+/**
+ * Key of cached resource - entries are matched by JSON of their keys, so keys should be JSON-safe.
+ * Keys are hierarchical, so related entries could be invalidated by their common prefix
+ */
+export type ResourceKey = readonly unknown[]
+
+export interface ResourceCacheOptions {
+    /**
+     * Time (ms) the loaded value is fresh - fresh value isn't re-fetched, stale value is rendered
+     * while it's revalidated in background - default 0
+     */
+    staleTime?: number
+
+    /**
+     * Time (ms) the entry is kept in cache, after the last resource using it has switched to other
+     * key or has been disposed - default 5 minutes
+     */
+    cacheTime?: number
+}
+
+/**
+ * Resource Cache
+ *
+ * Shared cache of resource values - resources using the same cache and key are sharing the value
+ * and the in-flight request
+ */
+export interface ResourceCache {
+    /**
+     * Read cached value of the key - tracked, when the entry exists
+     */
+    get<T>(key: ResourceKey): T | undefined
+
+    /**
+     * Mark entries with the key prefix (all entries by default) as stale - entries used by resources
+     * are revalidated in background
+     */
+    invalidate(keyPrefix?: ResourceKey): void
+
+    /**
+     * Write the value of the key (optimistic update) - in-flight request for the key is dropped
+     */
+    mutate<T>(key: ResourceKey, value: T | ((prev: T | undefined) => T)): void
+}
+
+export interface ResourceOptions<T, U> extends ResourceCacheOptions {
+    initialValue?: T
+    cache?: ResourceCache
+
+    /**
+     * Cache key of fetcher input - `[input]` by default
+     */
+    key?: (input: U) => ResourceKey
+}
+
+/* **************** *
+ * Resource types   *
+ * **************** */
+
+/**
+ * Resource created with fetcher only - it's loaded manually, with `load(input)`
+ */
+export interface Resource<T, U = undefined> {
+    data: Readable<T | undefined>
+    error: Readable<Error | null>
+    loading: Readable<boolean>
+    load(input?: U): Promise<T> | T
+}
+
+/**
+ * AsynX Resource created with fetcher only - `load(input)` is suspending the Suspense boundary,
+ * until the value is loaded
+ */
+export interface AsynxResource<T, U = undefined> {
+    data: Readable<T | undefined>
+    error: Readable<Error | null>
+    loading: Readable<boolean>
+    load(input?: U): void
+}
+
+/**
+ * State of resource with source - `unresolved` (nothing fetched yet), `pending` (fetching the first
+ * value), `ready`, `refreshing` (fetching next value, while the previous one is kept) or `errored`
+ */
+export type ResourceState = 'unresolved' | 'pending' | 'ready' | 'refreshing' | 'errored'
+
+export interface ResourceFetcherContext {
+    /**
+     * Aborted, when the request is superseded by the next source value, refetch or dispose - it's
+     * never aborted for cached resources, as their requests are shared
+     */
+    signal: AbortSignal
+}
+
+/**
+ * Resource with source - it's re-fetched automatically, whenever the source changes
+ */
+export interface SourceResource<T> {
+    /**
+     * Read the value - in Suspense content, pending or refreshing resource is suspending the boundary
+     */
+    data: Readable<T | undefined>
+
+    /**
+     * Read the last resolved value - it's never suspending, so the previous value is kept while refreshing
+     */
+    latest: Readable<T | undefined>
+    error: Readable<Error | null>
+    loading: Readable<boolean>
+    state: Readable<ResourceState>
+
+    /**
+     * Fetch again for the current source value - returns the request, or undefined when source is falsy
+     */
+    refetch(): Promise<T> | undefined
+}
+
+/**
+ * Resource state serialized on server - resolved value or error
+ */
+export type HydratedResource<T> = { value: T } | { error: Error }
+
+/**
+ * Resource Hydration
+ *
+ * Hooks set by DOM runtime - resources created in hydration context are keyed, so their requests
+ * started on server are registered for serialization, and client resources are reading them,
+ * instead of fetching again
+ */
+export interface ResourceHydration {
+    /**
+     * Key of resource created in current hydration context, or undefined outside of it
+     */
+    key(): string | undefined
+
+    /**
+     * Client - read resource state serialized on server, or promise of state that is still streamed
+     */
+    load<T>(key: string): HydratedResource<T> | Promise<HydratedResource<T>> | undefined
+
+    /**
+     * Server - register request of resource, to serialize its result
+     */
+    register<T>(key: string, request: Promise<T> | T): void
+}
+
+/* ******************** *
+ * AsynX Pipeline types *
+ * ******************** */
+
+/**
+ * Priority lane of AsynX work - `immediate` is run in AsynX tick, `userBlocking` and `normal` in
+ * host timer slices and `idle` in idle callbacks (or time-sliced fallback)
+ */
+export type AsynxLane = 'immediate' | 'userBlocking' | 'normal' | 'idle'
+
+export interface AsynxStepContext {
+    /**
+     * Signal of the step attempt - aborted, when the attempt is timed out or failed (also
+     * before its retry), or when the pipeline is disposed. Results of aborted actions are dropped
+     */
+    signal: AbortSignal
+
+    /**
+     * Number of the current attempt of retried step, starting from 1
+     */
+    attempt: number
+}
+
+export interface AsynxRetry {
+    /**
+     * Max number of attempts, including the first one
+     */
+    attempts: number
+
+    /**
+     * Delay (ms) before the next attempt - constant or function of the failed attempt number, 0 by default
+     */
+    backoff?: number | ((attempt: number) => number)
+}
+
+/**
+ * AsynX Step
+ *
+ * Pipeline step with options - observables locked until the step is settled, retry policy
+ * and timeout (ms) of the promise returned by the action
+ */
+export interface AsynxStep<T = void, R = void> {
+    action: (value: T | undefined, context: AsynxStepContext) => R
+    lock?: Observable<any>[]
+    retry?: AsynxRetry
+    timeout?: number
+}
+
+/**
+ * AsynX Catch Step
+ *
+ * Error channel of the pipeline - it's skipped in the regular flow, and when the previous step has
+ * failed (after its retries), it's called with the error, and its result continues the pipeline
+ */
+export interface AsynxCatch<E = Error, R = void> {
+    catch: (error: E, context: AsynxStepContext) => R
+}
+
+export interface RateLimitOptions {
+    /**
+     * Update on the first change, when timer isn't running
+     */
+    leading?: boolean
+
+    /**
+     * Update with the last value, when timer ends
+     */
+    trailing?: boolean
+}
+
+/**
+ * Readable returned by debounced, throttled and audit - `flush()` is cancelling the running timer
+ * and writing the last value immediately
+ */
+export interface RateLimited<T> extends Readable<T> {
+    flush(): void
+}
+
+/* ************ *
+ * Hold types   *
+ * ************ */
+
+export interface HoldOptions {
+    /**
+     * Debug name of the hold, listed by getHolds() and in reports
+     */
+    name?: string
+
+    /**
+     * Time (ms) after which the hold is released automatically and reported - it's not limited by default
+     */
+    timeout?: number
+
+    /**
+     * Called with the hold info, when it's released by timeout - warning is logged in dev mode by default
+     */
+    onTimeout?: (info: HoldInfo) => void
+
+    /**
+     * Called with infos of waiting holds (starting with this one), when a cycle of holds is detected while
+     * running this hold in dev mode - warning is logged by default
+     */
+    onDeadlock?: (cycle: HoldInfo[]) => void
+}
+
+/**
+ * Hold
+ *
+ * Handle of held observables - their writes are held back (pending), until the hold is released
+ */
+export interface Hold<R = void> {
+    /**
+     * Release held observables - pending writes are committed, when the last hold of observable is released
+     */
+    release(): void
+    readonly released: boolean
+
+    /**
+     * Result of the function run with held observables
+     */
+    readonly result: R
+}
+
+/**
+ * Hold Info
+ *
+ * Description of active hold - observables are described by their labels (or `#id`), and holds by their names
+ */
+export interface HoldInfo {
+    name: string
+    observables: string[]
+    /**
+     * Holds of observables, that this hold has written while they were held - in dev mode
+     */
+    waitingFor: string[]
+    /**
+     * Name of the owner, where the hold was created
+     */
+    owner: string | null
+    /**
+     * Creation stack - in dev mode
+     */
+    stack: string | null
+}
+
+export interface AsynxStepOptions {
+    retry?: AsynxRetry
+    timeout?: number
+}
+
+/**
+ * Value of pending AsynX readable - `WAITING` constant
+ */
+export type AsynxWaiting = { readonly __waiting__: true }
+
+/**
+ * AsynX Pipeline
+ *
+ * Immutable, typed builder of AsynX pipeline - every method returns new builder, and the output type
+ * of every step is the input type of the next one. Modifiers (`lock`, `retry` and `timeout`) are
+ * configuring the last added step. Builder isn't a promise (even if it has `then`) - use `toPromise()`
+ * to await the result.
+ */
+export interface AsynxPipeline<T> {
+    /**
+     * Add step - its result (or resolved promise) is passed to the next step. It's not named `then`,
+     * so the pipeline isn't a thenable - awaiting it would be resolved with itself, without running it
+     */
+    step<R>(action: (value: T, context: AsynxStepContext) => R, options?: AsynxStepOptions): AsynxPipeline<Awaited<R>>
+
+    /**
+     * Add step run in the next animation frame
+     */
+    frame<R>(action: (value: T, context: AsynxStepContext) => R, options?: AsynxStepOptions): AsynxPipeline<Awaited<R>>
+
+    /**
+     * Add step passing the value after delay (ms) on AsynX timeline
+     */
+    delay(ms: number): AsynxPipeline<T>
+
+    /**
+     * Lock observables of the last step
+     */
+    lock(observables: Observable<any>[]): AsynxPipeline<T>
+
+    /**
+     * Set retry policy of the last step
+     */
+    retry(retry: AsynxRetry): AsynxPipeline<T>
+
+    /**
+     * Set timeout (ms) of the last step
+     */
+    timeout(ms: number): AsynxPipeline<T>
+
+    /**
+     * Add catch step - it's recovering from errors of the previous steps, with the fallback value
+     */
+    catch<R, E = Error>(fallback: (error: E, context: AsynxStepContext) => R): AsynxPipeline<T | Awaited<R>>
+
+    /**
+     * Schedule the pipeline and return its dispose
+     */
+    run(): () => void
+
+    /**
+     * Schedule the pipeline and return readable with its result - `WAITING` until it's done. Pipeline
+     * is disposed with the current owner
+     */
+    toReadable(): Readable<T | AsynxWaiting>
+
+    /**
+     * Schedule the pipeline and return promise of its result - rejected with errors that weren't
+     * caught by catch steps. Pipeline is disposed with the current owner
+     */
+    toPromise(): Promise<T>
+}
+
+/* ****************** *
+ * Transaction types  *
+ * ****************** */
+
+export type TransactionState = 'pending' | 'committed' | 'rolledBack'
+
+/**
+ * Transaction
+ *
+ * Handle of writes made in transaction - rollback is restoring values of all the written
+ * observables, from before the transaction, in one update
+ */
+export interface Transaction<R = void> {
+    /**
+     * Result of the transaction function
+     */
+    readonly result: R
+    readonly state: TransactionState
+
+    /**
+     * Promise resolved with the final state, when the transaction is committed or rolled back
+     */
+    readonly done: Promise<TransactionState>
+
+    /**
+     * Keep the written values - recorded previous values are dropped
+     */
+    commit(): void
+
+    /**
+     * Restore the previous values of written observables in one batch
+     */
+    rollback(): void
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ArrayOpsCursor } from '../src'
+import { observer, opsSince, reactiveArray, root } from '../src'
+
+const cursor = (): ArrayOpsCursor => ({ log: null, version: 0 })
+
+describe('reactiveArray', () => {
+    it('mutates the same array in place and notifies observers', () => {
+        root(dispose => {
+            const list = reactiveArray([1, 2, 3])
+            const read = vi.fn(() => list().length)
+            const items = list()
+            observer(read)
+            list.push(4)
+            list.splice(0, 1)
+            list.move(0, 2)
+            list.set(0, 9)
+            expect(list()).toBe(items)
+            expect(items).toEqual([9, 4, 2])
+            expect(read).toHaveBeenCalledTimes(5)
+            dispose()
+        })
+    })
+
+    it('records granular operations since the consumer cursor', () => {
+        const list = reactiveArray(['a', 'b', 'c']),
+            consumer = cursor()
+        // the first read hasn't got a version to continue from
+        expect(opsSince(list(), consumer)).toBeNull()
+        list.push('d')
+        list.splice(1, 1, 'x', 'y')
+        list.move(0, 3)
+        list.set(1, 'z')
+        expect(opsSince(list(), consumer)).toEqual([
+            { type: 'splice', index: 3, remove: 0, items: ['d'] },
+            { type: 'splice', index: 1, remove: 1, items: ['x', 'y'] },
+            { type: 'move', from: 0, to: 3 },
+            { type: 'set', index: 1, item: 'z' }
+        ])
+        expect(opsSince(list(), consumer)).toEqual([])
+    })
+
+    it('skips no-op mutations', () => {
+        const list = reactiveArray([1, 2]),
+            consumer = cursor()
+        opsSince(list(), consumer)
+        list.push()
+        list.splice(1, 0)
+        list.move(1, 1)
+        list.set(0, 1)
+        expect(opsSince(list(), consumer)).toEqual([])
+    })
+
+    it('returns null for plain arrays and trimmed logs', () => {
+        expect(opsSince([1, 2], cursor())).toBeNull()
+        const list = reactiveArray([0]),
+            lagging = cursor()
+        opsSince(list(), lagging)
+        // the log isn't kept longer than the array (or min size), so diffing is cheaper
+        for (let i = 1; i <= 100; i++) list.set(0, i)
+        expect(opsSince(list(), lagging)).toBeNull()
+        expect(opsSince(list(), lagging)).toEqual([])
+    })
+
+    it('sets existing indexes or appends at length', () => {
+        const list = reactiveArray([1, 2])
+        list.set(2, 3)
+        expect(list()).toEqual([1, 2, 3])
+        expect(() => list.set(5, 0)).toThrow(RangeError)
+        expect(() => list.set(-1, 0)).toThrow(RangeError)
+        expect(() => list.set(0.5, 0)).toThrow(RangeError)
+    })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { asyncMemo, createSuspense, observable, root } from '../src'
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+function deferred<T>() {
+    let resolve!: (value: T) => void, reject!: (err: unknown) => void
+    const promise = new Promise<T>((res, rej) => ((resolve = res), (reject = rej)))
+    return { promise, resolve, reject }
+}
+
+// Observers created in root are run, when its function returns
+function scoped<T>(fn: () => T): [T, () => void] {
+    let value!: T
+    const dispose = root(dispose => {
+        value = fn()
+        return dispose
+    })
+    return [value, dispose]
+}
+
+describe('asyncMemo', () => {
+    it('re-runs on dependency change and drops superseded results', async () => {
+        const id = observable(1),
+            runs: { signal: AbortSignal; result: ReturnType<typeof deferred<string>> }[] = []
+        const [user, dispose] = scoped(() =>
+            asyncMemo(
+                (_prev: string | undefined, { signal }) => {
+                    id()
+                    const run = { signal, result: deferred<string>() }
+                    runs.push(run)
+                    return run.result.promise
+                },
+                { initialValue: 'none' }
+            )
+        )
+        expect(user()).toBe('none')
+        expect(user.loading()).toBe(true)
+
+        id(2)
+        expect(runs[0].signal.aborted).toBe(true)
+        runs[1].result.resolve('user 2')
+        runs[0].result.resolve('user 1')
+        await settled()
+        expect(user()).toBe('user 2')
+        expect(user.loading()).toBe(false)
+
+        dispose()
+        expect(runs[1].signal.aborted).toBe(true)
+    })
+
+    it('exposes the error of the last run', async () => {
+        const [user, dispose] = scoped(() => asyncMemo(() => Promise.reject(new Error('failed'))))
+        await settled()
+        expect(user.error()?.message).toBe('failed')
+        expect(user.loading()).toBe(false)
+        dispose()
+    })
+
+    it('settles synchronous results immediately', () => {
+        const count = observable(1)
+        const [doubled, dispose] = scoped(() => asyncMemo(() => count() * 2))
+        expect(doubled()).toBe(2)
+        count(2)
+        expect(doubled()).toBe(4)
+        dispose()
+    })
+
+    it('suspends Suspense content while pending', async () => {
+        const result = deferred<string>()
+        const [view, dispose] = scoped(() => {
+            const user = asyncMemo(() => result.promise)
+            return createSuspense(
+                () => user(),
+                () => 'loading'
+            )
+        })
+        expect(view()).toBe('loading')
+        result.resolve('user')
+        await settled()
+        expect(view()).toBe('user')
+        dispose()
+    })
+})
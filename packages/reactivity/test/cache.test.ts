@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { createResource, createResourceCache, root } from '../src'
+import { flush, useVirtualHost } from './virtualHost'
+
+type User = { id: number; version: number }
+
+describe('resource cache', () => {
+    const host = useVirtualHost()
+
+    function users(options?: { staleTime?: number; cacheTime?: number }) {
+        const cache = createResourceCache(options)
+        let calls = 0
+        const fetchUser = (id: number) => Promise.resolve<User>({ id, version: ++calls })
+        const [first, second, dispose] = root(dispose => [
+            createResource(fetchUser, { cache, key: (id: number) => ['user', id] }),
+            createResource(fetchUser, { cache, key: (id: number) => ['user', id] }),
+            dispose
+        ] as const)
+        return { cache, first, second, dispose, calls: () => calls }
+    }
+
+    it('dedupes in-flight requests of the same key', async () => {
+        const { first, second, dispose, calls } = users()
+        const request = first.load(1)
+        expect(second.load(1)).toBe(request)
+        await flush(host())
+        expect(calls()).toBe(1)
+        expect(first.data()).toEqual({ id: 1, version: 1 })
+        expect(second.data()).toEqual({ id: 1, version: 1 })
+        dispose()
+    })
+
+    it('reuses fresh values and revalidates stale ones', async () => {
+        const { first, dispose, calls } = users({ staleTime: 1000 })
+        first.load(1)
+        await flush(host())
+        await first.load(1)
+        expect(calls()).toBe(1)
+
+        host().advanceBy(1000)
+        first.load(1)
+        // stale value stays rendered while it's revalidated
+        expect(first.data()).toEqual({ id: 1, version: 1 })
+        await flush(host())
+        expect(calls()).toBe(2)
+        expect(first.data()).toEqual({ id: 1, version: 2 })
+        dispose()
+    })
+
+    it('mutates and invalidates entries by key prefix', async () => {
+        const { cache, first, dispose, calls } = users({ staleTime: 1000 })
+        first.load(1)
+        await flush(host())
+        cache.mutate(['user', 1], (user?: User) => ({ ...user!, version: 0 }))
+        await flush(host())
+        expect(cache.get(['user', 1])).toEqual({ id: 1, version: 0 })
+        expect(first.data()).toEqual({ id: 1, version: 0 })
+
+        cache.invalidate(['user'])
+        await flush(host())
+        expect(calls()).toBe(2)
+        expect(cache.get(['user', 1])).toEqual({ id: 1, version: 2 })
+        dispose()
+    })
+
+    it('keeps the value and reports the error of failed revalidation', async () => {
+        const cache = createResourceCache()
+        let calls = 0
+        const fetchUser = (id: number) =>
+            ++calls > 1 ? Promise.reject(new Error('down')) : Promise.resolve<User>({ id, version: calls })
+        const [user, dispose] = root(dispose => [
+            createResource(fetchUser, { cache, key: (id: number) => ['user', id] }),
+            dispose
+        ] as const)
+        user.load(1)
+        await flush(host())
+        cache.invalidate(['user'])
+        await flush(host())
+        expect(calls).toBe(2)
+        expect(user.data()).toEqual({ id: 1, version: 1 })
+        expect(user.error()?.message).toBe('down')
+        dispose()
+    })
+
+    it('removes unused entries after cache time', async () => {
+        const { cache, first, dispose } = users({ cacheTime: 500 })
+        first.load(1)
+        await flush(host())
+        dispose()
+        host().advanceBy(499)
+        expect(cache.get(['user', 1])).toEqual({ id: 1, version: 1 })
+        host().advanceBy(1)
+        expect(cache.get(['user', 1])).toBeUndefined()
+    })
+})
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest'
+import { observer, reactiveMap, reactiveSet, root } from '../src'
+
+describe('reactiveMap', () => {
+    it('wakes only observers of the changed entry, size and iteration', () => {
+        root(dispose => {
+            const users = reactiveMap<number, string>([[1, 'ann']])
+            const first = vi.fn(() => users.get(1)),
+                size = vi.fn(() => users.size),
+                all = vi.fn(() => [...users.values()])
+            observer(first)
+            observer(size)
+            observer(all)
+
+            users.set(2, 'bob')
+            expect(first).toHaveBeenCalledTimes(1)
+            expect(size).toHaveBeenCalledTimes(2)
+            expect(all).toHaveBeenCalledTimes(2)
+
+            users.set(2, 'bo')
+            expect(size).toHaveBeenCalledTimes(2)
+            expect(all).toHaveBeenCalledTimes(3)
+
+            users.set(1, 'anna')
+            expect(first).toHaveBeenCalledTimes(2)
+            expect(first).toHaveLastReturnedWith('anna')
+
+            users.delete(1)
+            expect(first).toHaveLastReturnedWith(undefined)
+            expect(size).toHaveLastReturnedWith(1)
+            dispose()
+        })
+    })
+
+    it('skips setting the same value', () => {
+        root(dispose => {
+            const users = reactiveMap([[1, 'ann']])
+            const all = vi.fn(() => [...users.entries()])
+            observer(all)
+            users.set(1, 'ann')
+            expect(all).toHaveBeenCalledTimes(1)
+            dispose()
+        })
+    })
+})
+
+describe('reactiveSet', () => {
+    it('tracks has per key', () => {
+        root(dispose => {
+            const tags = reactiveSet(['a'])
+            const hasA = vi.fn(() => tags.has('a'))
+            observer(hasA)
+            tags.add('b')
+            expect(hasA).toHaveBeenCalledTimes(1)
+            tags.delete('a')
+            expect(hasA).toHaveBeenCalledTimes(2)
+            expect(hasA).toHaveLastReturnedWith(false)
+            dispose()
+        })
+    })
+
+    it('composes sets by iteration and tracks both of them', () => {
+        root(dispose => {
+            const a = reactiveSet([1, 2]),
+                b = reactiveSet([2, 3])
+            const union = vi.fn(() => [...a.union(b)].sort())
+            observer(union)
+            expect(union).toHaveLastReturnedWith([1, 2, 3])
+            a.add(4)
+            expect(union).toHaveLastReturnedWith([1, 2, 3, 4])
+            b.add(5)
+            expect(union).toHaveLastReturnedWith([1, 2, 3, 4, 5])
+            b.delete(5)
+            expect([...a.intersection(b)]).toEqual([2])
+            expect([...a.difference(b)].sort()).toEqual([1, 4])
+            expect([...a.symmetricDifference(b)].sort()).toEqual([1, 3, 4])
+            expect(a.isSubsetOf(new Set([1, 2, 4, 5]))).toBe(true)
+            expect(a.isSupersetOf(new Set([1, 4]))).toBe(true)
+            expect(a.isDisjointFrom(new Set([7]))).toBe(true)
+            dispose()
+        })
+    })
+})
+
+describe('key nodes', () => {
+    // key nodes are internal - their count is read to check, that unobserved ones are released
+    const keyNodes = (collection: object) =>
+        (collection as unknown as { keyNodes: { nodes: Map<unknown, unknown> } }).keyNodes.nodes
+
+    it('releases the node of a key, when it is no longer observed', () => {
+        const users = reactiveMap([[1, 'ann']]),
+            tags = reactiveSet(['a'])
+        const dispose = root(dispose => {
+            observer(() => users.get(1))
+            observer(() => tags.has('a'))
+            return dispose
+        })
+        expect(keyNodes(users).size).toBe(1)
+        expect(keyNodes(tags).size).toBe(1)
+        dispose()
+        expect(keyNodes(users).size).toBe(0)
+        expect(keyNodes(tags).size).toBe(0)
+    })
+
+    it("doesn't create nodes for untracked reads", () => {
+        const users = reactiveMap([[1, 'ann']])
+        expect(users.get(1)).toBe('ann')
+        expect(keyNodes(users).size).toBe(0)
+    })
+})
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { Readable } from '../src'
+import {
+    CircularDependencyError,
+    computed,
+    effect,
+    error,
+    label,
+    memo,
+    observable,
+    root,
+    RunawayUpdateError,
+    setDevMode
+} from '../src'
+
+// a -> c -> b -> a, closed when the source is set
+function cycle(): CircularDependencyError {
+    let caught: CircularDependencyError | null = null
+    root(dispose => {
+        const s = observable(0)
+        let a: Readable<number> | null = null
+        const b = computed(() => {
+            label('b')
+            return (s() && a ? a() : 0) + 1
+        })
+        const c = computed(() => {
+            label('c')
+            return b() + s()
+        })
+        a = memo(() => {
+            label('a')
+            return c() + s()
+        })
+        error((e?: unknown) => {
+            caught = e as CircularDependencyError
+        })
+        s(1)
+        dispose()
+    })
+    return caught!
+}
+
+describe('diagnostics', () => {
+    afterEach(() => {
+        setDevMode(false)
+    })
+
+    it('reports the re-read observer and its reader without dev mode', () => {
+        const e = cycle()
+        expect(e).toBeInstanceOf(CircularDependencyError)
+        expect(e.names).toEqual(['a', 'b'])
+        expect(e.message).toBe('Circular dependency: a -> b -> a (enable dev mode for the full path)')
+        expect(e.stacks).toEqual([null, null])
+    })
+
+    it('reports the full dependency path with stacks in dev mode', () => {
+        setDevMode()
+        const e = cycle()
+        expect(e.names).toEqual(['a', 'c', 'b'])
+        expect(e.message).toBe('Circular dependency: a -> c -> b -> a')
+        expect(e.stacks.every(stack => typeof stack === 'string')).toBe(true)
+    })
+
+    it('aborts runaway updates after max iterations', () => {
+        setDevMode({ maxIterations: 50 })
+        const x = observable(0)
+        const dispose = root(dispose => {
+            effect(() => {
+                const v = x()
+                if (v > 0) x(v + 1)
+            })
+            return dispose
+        })
+        expect(() => x(1)).toThrow(RunawayUpdateError)
+        // the flush is aborted, so later writes are flushed again
+        const y = observable(0)
+        let read = -1
+        const disposeReader = root(dispose => {
+            effect(() => (read = y()))
+            return dispose
+        })
+        y(2)
+        expect(read).toBe(2)
+        disposeReader()
+        dispose()
+    })
+})
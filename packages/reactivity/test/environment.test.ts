@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { createEnvironmentHost, createVirtualHost, environmentHost, getAsynxHost, tick } from '../src'
+
+// Scope without window APIs - timers and clock are driven by virtual host
+function workerScope(startTime: number) {
+    const timers = createVirtualHost(startTime)
+    const scope = {
+        performance: { now: timers.now },
+        setTimeout: timers.setTimeout,
+        clearTimeout: timers.clearTimeout,
+        queueMicrotask: timers.queueMicrotask
+    }
+    return { timers, scope }
+}
+
+describe('environment host', () => {
+    it('is the default host', () => {
+        expect(getAsynxHost()).toBe(environmentHost)
+    })
+
+    it('runs ticks in Node', async () => {
+        const log: string[] = []
+        tick(() => log.push('tick'))
+        expect(log).toEqual([])
+        await new Promise(resolve => setTimeout(resolve))
+        expect(log).toEqual(['tick'])
+    })
+
+    it('emulates frames with timers aligned to 16ms', () => {
+        const { timers, scope } = workerScope(5)
+        const host = createEnvironmentHost(scope),
+            frames: number[] = []
+        host.requestFrame(time => frames.push(time))
+        const cancelled = host.requestFrame(time => frames.push(-time))
+        host.cancelFrame(cancelled)
+        timers.advanceBy(10)
+        expect(frames).toEqual([])
+        timers.advanceBy(1)
+        expect(frames).toEqual([16])
+    })
+
+    it('falls back to resolved promise without queueMicrotask', async () => {
+        const host = createEnvironmentHost({ setTimeout, clearTimeout }),
+            log: string[] = []
+        host.queueMicrotask(() => log.push('micro'))
+        expect(log).toEqual([])
+        await Promise.resolve()
+        expect(log).toEqual(['micro'])
+        expect(typeof host.now()).toBe('number')
+    })
+})
+
+describe('virtual microtasks', () => {
+    it("aren't re-run after a throwing one", () => {
+        const host = createVirtualHost(),
+            log: string[] = []
+        host.queueMicrotask(() => log.push('first'))
+        host.queueMicrotask(() => {
+            throw new Error('failed')
+        })
+        host.queueMicrotask(() => log.push('last'))
+        expect(() => host.flushMicro()).toThrow('failed')
+        host.flushMicro()
+        expect(log).toEqual(['first', 'last'])
+    })
+})
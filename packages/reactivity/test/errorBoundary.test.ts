@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { asynx, errorBoundary, observable, observer, root } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+describe('errorBoundary', () => {
+    const host = useVirtualHost()
+
+    it('renders fallback when the function throws and re-runs it on reset', () => {
+        root(dispose => {
+            let fail = true,
+                reset!: () => void
+            const view = errorBoundary(
+                () => {
+                    if (fail) throw new Error('failed')
+                    return 'content'
+                },
+                (err: Error, retry) => {
+                    reset = retry
+                    return `fallback: ${err.message}`
+                }
+            )
+            expect(view()).toBe('fallback: failed')
+            fail = false
+            reset()
+            expect(view()).toBe('content')
+            dispose()
+        })
+    })
+
+    it('catches errors of observers created in the scope', () => {
+        root(dispose => {
+            const count = observable(0)
+            const view = errorBoundary(
+                () => {
+                    observer(() => {
+                        if (count() > 0) throw new Error('observer')
+                    })
+                    return 'content'
+                },
+                (err: Error) => err.message
+            )
+            expect(view()).toBe('content')
+            count(1)
+            expect(view()).toBe('observer')
+            // failed scope is disposed
+            count(2)
+            expect(view()).toBe('observer')
+            dispose()
+        })
+    })
+
+    it('catches errors of asynx pipelines created in the scope', () => {
+        root(dispose => {
+            const view = errorBoundary(
+                () => {
+                    asynx(10, [
+                        () => {
+                            throw new Error('pipeline')
+                        }
+                    ])
+                    return 'content'
+                },
+                (err: Error) => err.message
+            )
+            expect(view()).toBe('content')
+            host().advanceBy(10)
+            expect(view()).toBe('pipeline')
+            dispose()
+        })
+    })
+})
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Hold, HoldInfo } from '../src'
+import { getHolds, hold, label, observable, setDevMode } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+describe('hold', () => {
+    const host = useVirtualHost()
+
+    afterEach(() => {
+        setDevMode(false)
+    })
+
+    it('keeps writes pending until the last hold is released', () => {
+        const draft = observable('a')
+        const first = hold([draft]),
+            second = hold([draft])
+        draft('b')
+        expect(draft()).toBe('a')
+        first.release()
+        expect(draft()).toBe('a')
+        second.release()
+        expect(draft()).toBe('b')
+    })
+
+    it('releases the hold when the returned promise is settled', async () => {
+        const draft = observable('a')
+        let save!: () => void
+        const saving = hold([draft], () => new Promise<void>(resolve => (save = resolve)))
+        draft('b')
+        expect(draft()).toBe('a')
+        save()
+        await saving.result
+        await Promise.resolve()
+        expect(saving.released).toBe(true)
+        expect(draft()).toBe('b')
+    })
+
+    it('releases the hold when the function throws', () => {
+        const draft = observable('a')
+        expect(() =>
+            hold([draft], () => {
+                throw new Error('failed')
+            })
+        ).toThrow('failed')
+        draft('b')
+        expect(draft()).toBe('b')
+    })
+
+    it('releases the hold after timeout and reports it', () => {
+        const draft = observable('a'),
+            timedOut: HoldInfo[] = []
+        label('draft', draft)
+        hold([draft], undefined, { name: 'save', timeout: 100, onTimeout: info => timedOut.push(info) })
+        draft('b')
+        host().advanceBy(100)
+        expect(draft()).toBe('b')
+        expect(timedOut.map(info => [info.name, info.observables])).toEqual([['save', ['draft']]])
+    })
+
+    it('warns about timeout only in dev mode', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        hold([observable(0)], undefined, { timeout: 10 })
+        host().advanceBy(10)
+        expect(warn).not.toHaveBeenCalled()
+        setDevMode()
+        hold([observable(0)], undefined, { timeout: 10 })
+        host().advanceBy(10)
+        expect(warn).toHaveBeenCalledTimes(1)
+        warn.mockRestore()
+    })
+
+    it('registers holds and reports deadlocks in dev mode', () => {
+        setDevMode()
+        const x = observable(0),
+            y = observable(0),
+            cycles: string[][] = []
+        let b!: Hold
+        const a = hold(
+            [x],
+            () => {
+                // b is waiting for a, and then a for b
+                b = hold(
+                    [y],
+                    () => {
+                        x(1)
+                    },
+                    { name: 'b' }
+                )
+                expect(getHolds().map(info => info.name)).toEqual(['a', 'b'])
+                y(1)
+            },
+            { name: 'a', onDeadlock: cycle => cycles.push(cycle.map(info => info.name)) }
+        )
+        expect(cycles).toEqual([['a', 'b']])
+        a.release()
+        b.release()
+        expect(getHolds()).toEqual([])
+    })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { asynx, delayed, frame, getAsynxHost, interval, observable, tick } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+describe('virtual host', () => {
+    const host = useVirtualHost()
+
+    it('is the current host', () => {
+        expect(getAsynxHost()).toBe(host())
+        expect(host().now()).toBe(0)
+    })
+
+    it('moves time only on advanceBy', () => {
+        const count = observable(0)
+        const dispose = interval(100, () => count(c => c + 1))
+        host().advanceBy(99)
+        expect(count()).toBe(0)
+        host().advanceBy(151)
+        expect(count()).toBe(2)
+        expect(host().now()).toBe(250)
+        dispose()
+        host().advanceBy(1000)
+        expect(count()).toBe(2)
+    })
+
+    it('runs timers due at the same time in order of scheduling', () => {
+        const log: string[] = []
+        delayed(50, () => log.push('first'))
+        delayed(20, () => log.push('earlier'))
+        delayed(50, () => log.push('second'))
+        host().advanceBy(50)
+        expect(log).toEqual(['earlier', 'first', 'second'])
+    })
+
+    it('runs ticks on flushMicro and frames on runAllFrames', () => {
+        const log: string[] = []
+        tick(() => log.push('tick'))
+        frame(() => log.push('frame'))
+        expect(log).toEqual([])
+        host().flushMicro()
+        expect(log).toEqual(['tick'])
+        host().runAllFrames()
+        expect(log).toEqual(['tick', 'frame'])
+    })
+
+    it('drives asynx pipelines deterministically', () => {
+        const result = observable(0)
+        asynx<number>(100, [
+            () => 1,
+            (n?: number) => {
+                result(n! + 1)
+            }
+        ])
+        host().advanceBy(99)
+        expect(result()).toBe(0)
+        host().advanceBy(1)
+        expect(result()).toBe(2)
+    })
+})
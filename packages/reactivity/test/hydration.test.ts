@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import type { HydratedResource, ResourceHydration } from '../src'
+import { createResource, observable, root, setResourceHydration } from '../src'
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+// Hydration hooks of the DOM runtime - resources are keyed in order of their creation
+function hydration(payload: Record<string, HydratedResource<any> | Promise<HydratedResource<any>>> = {}) {
+    const registered = new Map<string, unknown>()
+    let count = 0
+    const hooks: ResourceHydration = {
+        key: () => `r${count++}`,
+        load: <T>(key: string) => payload[key] as HydratedResource<T> | Promise<HydratedResource<T>> | undefined,
+        register: (key, request) => registered.set(key, request)
+    }
+    return { hooks, registered }
+}
+
+function user(fetchUser: (id: number) => Promise<string>) {
+    return root(dispose => [createResource(observable(1), fetchUser), dispose] as const)
+}
+
+describe('resource hydration', () => {
+    afterEach(() => {
+        setResourceHydration(null)
+    })
+
+    it('registers the first request on server', async () => {
+        const { hooks, registered } = hydration()
+        setResourceHydration(hooks)
+        const [resource, dispose] = user(id => Promise.resolve(`user ${id}`))
+        expect([...registered.keys()]).toEqual(['r0'])
+        expect(await registered.get('r0')).toBe('user 1')
+        await settled()
+        expect(resource.latest()).toBe('user 1')
+        dispose()
+    })
+
+    it('restores resolved state on client without fetching', () => {
+        const { hooks } = hydration({ r0: { value: 'server user' } })
+        setResourceHydration(hooks)
+        const fetched: number[] = []
+        const [resource, dispose] = user(id => (fetched.push(id), Promise.resolve(`user ${id}`)))
+        expect(fetched).toEqual([])
+        // resolved value is restored synchronously, so it's rendered in the hydration pass
+        expect(resource.state()).toBe('ready')
+        expect(resource.latest()).toBe('server user')
+        dispose()
+    })
+
+    it('restores errors and streamed state', async () => {
+        let stream!: (state: HydratedResource<string>) => void
+        const { hooks } = hydration({
+            r0: { error: new Error('server error') },
+            r1: new Promise(resolve => (stream = resolve))
+        })
+        setResourceHydration(hooks)
+        const [failed, disposeFailed] = user(() => Promise.resolve('unused'))
+        const [streamed, disposeStreamed] = user(() => Promise.resolve('unused'))
+        await settled()
+        expect(failed.error()?.message).toBe('server error')
+        expect(streamed.state()).toBe('pending')
+        stream({ value: 'streamed user' })
+        await settled()
+        expect(streamed.latest()).toBe('streamed user')
+        disposeFailed()
+        disposeStreamed()
+    })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import type { ObserverNode } from '../src'
+import { getOwner, inspect, label, memo, nameOf, observable, observer, root, store } from '../src'
+
+describe('inspector', () => {
+    it('names observables, stores and the current owner', () => {
+        let watcher: ObserverNode<any> | null = null
+        const dispose = root(dispose => {
+            const count = observable(0),
+                state = store({ items: [] })
+            label('count', count)
+            label('state', state)
+            expect(nameOf(count)).toBe('count')
+            expect(nameOf(state)).toBe('state')
+            expect(nameOf(observable(0))).toBeNull()
+            observer(() => {
+                label('watcher')
+                watcher = getOwner()
+            })
+            return dispose
+        })
+        expect(nameOf(watcher!)).toBe('watcher')
+        dispose()
+    })
+
+    it('rejects functions without a writable source', () => {
+        root(dispose => {
+            expect(() => label('getter', () => 1)).toThrow('Only observables, stores and graph nodes could be labeled')
+            dispose()
+        })
+    })
+
+    it('snapshots owned subtree with sources and observers', () => {
+        root(dispose => {
+            const count = observable(1),
+                double = memo(() => {
+                    label('double')
+                    return count() * 2
+                })
+            label('count', count)
+            observer(() => {
+                label('log')
+                double()
+            })
+            const { root: rootId, nodes } = inspect()
+            const byName = (name: string) => Object.values(nodes).find(node => node.name === name)!
+            const log = byName('log'),
+                source = byName('count'),
+                doubled = byName('double')
+            expect(nodes[rootId].kind).toBe('root')
+            expect(log.kind).toBe('observer')
+            expect(log.ownerChain[0]).toBe(rootId)
+            expect(source.kind).toBe('source')
+            expect(source.value).toBe(1)
+            expect(doubled.kind).toBe('memo')
+            expect(doubled.value).toBe(2)
+            expect(doubled.sources).toContain(source.id)
+            expect(log.sources).toContain(doubled.id)
+            // every edge points at a described node
+            for (const node of Object.values(nodes)) {
+                for (const id of [...node.sources, ...node.observers, ...node.owned]) expect(nodes[id]).toBeDefined()
+            }
+            expect(source.observers.length).toBeGreaterThan(0)
+            dispose()
+        })
+    })
+
+    it('throws without an owner', () => {
+        expect(() => inspect()).toThrow('Cannot inspect graph without an owner')
+    })
+})
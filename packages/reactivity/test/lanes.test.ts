@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { lane, observable, observer, root, setFrameBudget } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+describe('lanes', () => {
+    const host = useVirtualHost()
+    let previousBudget: number
+
+    beforeEach(() => {
+        previousBudget = setFrameBudget(5)
+    })
+    afterEach(() => {
+        setFrameBudget(previousBudget)
+    })
+
+    it('runs higher lanes first', () => {
+        const log: string[] = []
+        lane('idle', () => log.push('idle'))
+        lane('normal', () => log.push('normal'))
+        lane('userBlocking', () => log.push('userBlocking'))
+        lane('immediate', () => log.push('immediate'))
+        expect(log).toEqual([])
+        host().advanceBy(0)
+        expect(log).toEqual(['immediate', 'userBlocking', 'normal', 'idle'])
+    })
+
+    it('yields lower lane work to higher lane work added while running', () => {
+        const log: string[] = []
+        lane('normal', () => {
+            log.push('normal 1')
+            lane('userBlocking', () => log.push('userBlocking'))
+        })
+        lane('normal', () => log.push('normal 2'))
+        lane('idle', () => {
+            log.push('idle 1')
+            lane('normal', () => log.push('normal 3'))
+        })
+        lane('idle', () => log.push('idle 2'))
+        host().advanceBy(0)
+        expect(log).toEqual(['normal 1', 'userBlocking', 'normal 2', 'idle 1', 'normal 3', 'idle 2'])
+    })
+
+    it('yields to the host after the frame budget', () => {
+        const log: string[] = []
+        const run = () => {
+            lane('normal', () => log.push('a'))
+            lane('normal', () => log.push('b'))
+            host().setTimeout(() => log.push('host'), 0)
+            host().advanceBy(0)
+        }
+        run()
+        expect(log).toEqual(['a', 'b', 'host'])
+        log.length = 0
+        expect(setFrameBudget(0)).toBe(5)
+        run()
+        expect(log).toEqual(['a', 'host', 'b'])
+    })
+
+    it('runs a slice in a single batch', () => {
+        const value = observable(0),
+            runs: number[] = []
+        const dispose = root(dispose => {
+            observer(() => runs.push(value()))
+            return dispose
+        })
+        lane('normal', () => value(1))
+        lane('normal', () => value(2))
+        host().advanceBy(0)
+        expect(runs).toEqual([0, 2])
+        dispose()
+    })
+
+    it('cancels the task with returned dispose', () => {
+        const log: string[] = []
+        const cancel = lane('normal', () => log.push('cancelled'))
+        lane('idle', () => log.push('idle'))
+        cancel()
+        host().advanceBy(0)
+        expect(log).toEqual(['idle'])
+    })
+
+    it("doesn't strand the lane when a task throws", () => {
+        const log: string[] = []
+        lane('normal', () => {
+            throw new Error('failed')
+        })
+        lane('normal', () => log.push('normal'))
+        lane('idle', () => log.push('idle'))
+        expect(() => host().advanceBy(0)).toThrow('failed')
+        expect(log).toEqual([])
+        host().advanceBy(0)
+        expect(log).toEqual(['normal', 'idle'])
+    })
+})
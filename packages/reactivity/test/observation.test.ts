@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { observable, observer, root } from '../src'
+
+function tracked() {
+    const log: string[] = []
+    const source = observable(0, {
+        onObserved: () => log.push('observed'),
+        onUnobserved: () => log.push('unobserved')
+    })
+    return { source, log }
+}
+
+describe('observation hooks', () => {
+    it('are called for the first and the last observer', () => {
+        const { source, log } = tracked()
+        source()
+        expect(log).toEqual([])
+        const disposeFirst = root(dispose => {
+            observer(() => source())
+            return dispose
+        })
+        const disposeSecond = root(dispose => {
+            observer(() => source())
+            return dispose
+        })
+        expect(log).toEqual(['observed'])
+        disposeFirst()
+        expect(log).toEqual(['observed'])
+        disposeSecond()
+        expect(log).toEqual(['observed', 'unobserved'])
+    })
+
+    it("aren't restarting the source for observers re-running in an update", () => {
+        const { source, log } = tracked()
+        root(dispose => {
+            observer(() => source())
+            source(1)
+            source(2)
+            expect(log).toEqual(['observed'])
+            dispose()
+        })
+        expect(log).toEqual(['observed', 'unobserved'])
+    })
+
+    it('are called when a conditional dependency is dropped', () => {
+        const { source, log } = tracked(),
+            enabled = observable(true)
+        root(dispose => {
+            observer(() => enabled() && source())
+            enabled(false)
+            expect(log).toEqual(['observed', 'unobserved'])
+            enabled(true)
+            expect(log).toEqual(['observed', 'unobserved', 'observed'])
+            dispose()
+        })
+    })
+})
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import type { AsynxStepContext } from '../src'
+import { asynx, AsynxTimeoutError, error, root } from '../src'
+import { flush, useVirtualHost } from './virtualHost'
+
+describe('asynx pipeline steps', () => {
+    const host = useVirtualHost()
+
+    it('retries the failed step after backoff', async () => {
+        const log: string[] = []
+        const steps = [
+            {
+                action: (value?: number, context?: AsynxStepContext) => {
+                    log.push(`attempt ${context!.attempt}`)
+                    return context!.attempt < 3 ? Promise.reject(new Error('failed')) : Promise.resolve(value! * 10)
+                },
+                retry: { attempts: 3, backoff: (attempt: number) => attempt * 100 }
+            },
+            (value?: number) => {
+                log.push(`value ${value}`)
+            }
+        ]
+        asynx<number>('asap', steps, 1)
+        await flush(host())
+        expect(log).toEqual(['attempt 1'])
+        host().advanceBy(100)
+        await flush(host())
+        expect(log).toEqual(['attempt 1', 'attempt 2'])
+        host().advanceBy(199)
+        await flush(host())
+        expect(log).toEqual(['attempt 1', 'attempt 2'])
+        host().advanceBy(1)
+        await flush(host())
+        expect(log).toEqual(['attempt 1', 'attempt 2', 'attempt 3', 'value 10'])
+    })
+
+    it('fails timed out step and passes the error to the next catch step', async () => {
+        const log: string[] = []
+        asynx('asap', [
+            { action: () => new Promise(() => {}), timeout: 50 },
+            () => {
+                log.push('skipped')
+            },
+            {
+                catch: (e: Error) => {
+                    log.push(e instanceof AsynxTimeoutError ? 'timeout' : e.message)
+                    return 'fallback'
+                }
+            },
+            (value?: unknown) => {
+                log.push(`after ${value}`)
+            }
+        ])
+        await flush(host())
+        host().advanceBy(50)
+        await flush(host())
+        expect(log).toEqual(['timeout', 'after fallback'])
+    })
+
+    it('aborts in-flight step on dispose and drops its result', async () => {
+        const log: string[] = []
+        let signal!: AbortSignal, resolve!: (value: number) => void
+        const dispose = asynx('asap', [
+            (_value?: unknown, context?: AsynxStepContext) => {
+                signal = context!.signal
+                return new Promise<number>(res => (resolve = res))
+            },
+            () => {
+                log.push('next')
+            }
+        ]) as () => void
+        await flush(host())
+        dispose()
+        expect(signal.aborted).toBe(true)
+        resolve(1)
+        await flush(host())
+        expect(log).toEqual([])
+    })
+
+    it('aborts timed out attempt before it is retried', async () => {
+        const signals: AbortSignal[] = []
+        asynx('asap', [
+            {
+                action: (_value?: unknown, context?: AsynxStepContext) => {
+                    signals.push(context!.signal)
+                    return context!.attempt < 2 ? new Promise(() => {}) : Promise.resolve()
+                },
+                timeout: 50,
+                retry: { attempts: 2 }
+            }
+        ])
+        await flush(host())
+        expect(signals.map(signal => signal.aborted)).toEqual([false])
+        host().advanceBy(50)
+        await flush(host())
+        expect(signals.map(signal => signal.aborted)).toEqual([true, false])
+    })
+
+    it("doesn't abort completed step", async () => {
+        let signal!: AbortSignal
+        asynx('asap', [
+            (_value?: unknown, context?: AsynxStepContext) => {
+                signal = context!.signal
+                return Promise.resolve(1)
+            },
+            () => new Promise(() => {})
+        ])
+        await flush(host())
+        host().advanceBy(1000)
+        expect(signal.aborted).toBe(false)
+    })
+
+    it('handles uncaught errors in the scope of the pipeline', async () => {
+        const handled: string[] = []
+        const dispose = root(dispose => {
+            error((e?: unknown) => {
+                handled.push((e as Error).message)
+            })
+            asynx('asap', [() => Promise.reject(new Error('failed'))])
+            return dispose
+        })
+        await flush(host())
+        expect(handled).toEqual(['failed'])
+        dispose()
+    })
+})
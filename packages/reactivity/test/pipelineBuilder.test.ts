@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { observable, pipeline, root, WAITING } from '../src'
+import { flush, useVirtualHost } from './virtualHost'
+
+describe('pipeline builder', () => {
+    const host = useVirtualHost()
+
+    it('passes typed step results to the next step', async () => {
+        const [result, dispose] = root(dispose => [
+            pipeline
+                .from('asap', 2)
+                .step(n => Promise.resolve(n * 2))
+                .step(n => `${n}`)
+                .toReadable(),
+            dispose
+        ] as const)
+        expect(result()).toBe(WAITING)
+        await flush(host())
+        expect(result()).toBe('4')
+        dispose()
+    })
+
+    it("isn't a thenable", () => {
+        expect('then' in pipeline.from('asap')).toBe(false)
+    })
+
+    it('runs frame and delay steps on the host', async () => {
+        const log: string[] = []
+        pipeline
+            .from('asap', 1)
+            .delay(100)
+            .frame(n => log.push(`frame ${n}`))
+            .run()
+        await flush(host())
+        host().advanceBy(99)
+        host().runAllFrames()
+        await flush(host())
+        expect(log).toEqual([])
+        host().advanceBy(1)
+        await flush(host())
+        host().runAllFrames()
+        await flush(host())
+        expect(log).toEqual(['frame 1'])
+    })
+
+    it('cancels pending delay when disposed', async () => {
+        const log: string[] = []
+        const dispose = pipeline
+            .from('asap')
+            .delay(100)
+            .step(() => log.push('after delay'))
+            .run()
+        await flush(host())
+        dispose()
+        host().advanceBy(100)
+        await flush(host())
+        expect(log).toEqual([])
+    })
+
+    it('configures the last step with modifiers and recovers with catch', async () => {
+        const count = observable(0),
+            attempts: number[] = []
+        const result = pipeline
+            .from('asap')
+            .step((_, { attempt }) => {
+                attempts.push(attempt)
+                count(attempt)
+                // the locked write is committed, when the step is settled
+                expect(count()).toBe(0)
+                return Promise.reject(new Error('failed'))
+            })
+            .lock([count])
+            .retry({ attempts: 2 })
+            .catch((e: Error) => e.message)
+            .toPromise()
+        await flush(host())
+        host().advanceBy(0)
+        await flush(host())
+        expect(await result).toBe('failed')
+        expect(attempts).toEqual([1, 2])
+        expect(count()).toBe(2)
+    })
+
+    it('rejects modifiers without a step', () => {
+        expect(() => pipeline.from('asap').retry({ attempts: 2 })).toThrow('Pipeline modifier should follow a step')
+    })
+})
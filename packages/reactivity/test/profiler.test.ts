@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { exportChromeTrace, getProfile, label, memo, observable, observer, root, startProfiling, stopProfiling } from '../src'
+
+function counter() {
+    const count = observable(0)
+    label('count', count)
+    const dispose = root(dispose => {
+        const doubled = memo(() => {
+            label('doubled')
+            return count() * 2
+        })
+        observer(() => {
+            label('log')
+            doubled()
+        })
+        return dispose
+    })
+    return { count, dispose }
+}
+
+describe('profiler', () => {
+    it('records updates of observers and writes of sources', () => {
+        const { count, dispose } = counter()
+        startProfiling()
+        count(1)
+        count(2)
+        const profile = stopProfiling()
+        const log = profile.nodes.find(node => node.name === 'log')!
+        expect(log.kind).toBe('observer')
+        expect(log.runs).toBe(2)
+        expect(log.max).toBeLessThanOrEqual(log.total)
+
+        const written = Object.values(profile.sources)
+        expect(written).toHaveLength(1)
+        expect(written[0]).toMatchObject({ name: 'count', writes: 2 })
+        // updates triggered through the memo are attributed to the written source
+        expect(log.triggers.map(trigger => trigger.sources)).toEqual([[written[0].id], [written[0].id]])
+        expect(profile.events.filter(event => event.type === 'write')).toHaveLength(2)
+        dispose()
+    })
+
+    it('stops recording on stopProfiling', () => {
+        const { count, dispose } = counter()
+        startProfiling()
+        count(1)
+        expect(Object.values(getProfile().sources)[0].writes).toBe(1)
+        const profile = stopProfiling()
+        count(2)
+        expect(Object.values(profile.sources)[0].writes).toBe(1)
+        expect(() => getProfile()).toThrow('Profiler is not started')
+        dispose()
+    })
+
+    it('exports Chrome trace events', () => {
+        const { count, dispose } = counter()
+        startProfiling()
+        count(1)
+        const trace = JSON.parse(exportChromeTrace(stopProfiling()))
+        expect(trace.traceEvents).toContainEqual(expect.objectContaining({ name: 'observer log', ph: 'X' }))
+        expect(trace.traceEvents).toContainEqual(expect.objectContaining({ name: 'source count', ph: 'i' }))
+        dispose()
+    })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import type { RateLimited, Readable } from '../src'
+import { audit, debounced, observable, root, throttled } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+describe('rate limited readables', () => {
+    const host = useVirtualHost()
+
+    function limited(create: (source: Readable<number>) => RateLimited<number>) {
+        const source = observable(0)
+        const [value, dispose] = root(dispose => [create(source), dispose] as const)
+        return { source, value, dispose }
+    }
+
+    it('debounced updates after the source is quiet', () => {
+        const { source, value, dispose } = limited(source => debounced(source, 100))
+        source(1)
+        host().advanceBy(60)
+        source(2)
+        host().advanceBy(60)
+        expect(value()).toBe(0)
+        host().advanceBy(40)
+        expect(value()).toBe(2)
+        dispose()
+    })
+
+    it('debounced with leading updates on the first change', () => {
+        const { source, value, dispose } = limited(source => debounced(source, 100, { leading: true, trailing: false }))
+        source(1)
+        expect(value()).toBe(1)
+        source(2)
+        host().advanceBy(100)
+        expect(value()).toBe(1)
+        dispose()
+    })
+
+    it('throttled updates at most once per window', () => {
+        const { source, value, dispose } = limited(source => throttled(source, 100))
+        source(1)
+        expect(value()).toBe(1)
+        source(2)
+        source(3)
+        host().advanceBy(99)
+        expect(value()).toBe(1)
+        host().advanceBy(1)
+        expect(value()).toBe(3)
+        dispose()
+    })
+
+    it('audit updates with the last value after the first change', () => {
+        const { source, value, dispose } = limited(source => audit(source, 100))
+        source(1)
+        host().advanceBy(50)
+        source(2)
+        expect(value()).toBe(0)
+        host().advanceBy(50)
+        expect(value()).toBe(2)
+        dispose()
+    })
+
+    it('flushes the last value immediately', () => {
+        const { source, value, dispose } = limited(source => debounced(source, 100))
+        source(1)
+        value.flush()
+        expect(value()).toBe(1)
+        host().advanceBy(100)
+        expect(value()).toBe(1)
+        dispose()
+    })
+
+    it('is disconnected when the owner is disposed', () => {
+        const { source, value, dispose } = limited(source => debounced(source, 100))
+        source(1)
+        dispose()
+        source(2)
+        host().advanceBy(200)
+        expect(value()).toBe(0)
+    })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import type { Observable } from '../src'
+import { createResource, observable, root } from '../src'
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+type Request = { id: number; signal: AbortSignal; resolve: (value: string) => void; reject: (err: Error) => void }
+
+function user(id: Observable<number | null>) {
+    const requests: Request[] = []
+    const [resource, dispose] = root(dispose => [
+        createResource(
+            id,
+            (id: number, { signal }) => new Promise<string>((resolve, reject) => requests.push({ id, signal, resolve, reject }))
+        ),
+        dispose
+    ] as const)
+    return { resource, requests, dispose }
+}
+
+describe('source resource', () => {
+    it('fetches whenever the source changes', async () => {
+        const id = observable<number | null>(1),
+            { resource, requests, dispose } = user(id)
+        expect(resource.state()).toBe('pending')
+        requests[0].resolve('user 1')
+        await settled()
+        expect(resource.state()).toBe('ready')
+        expect(resource.latest()).toBe('user 1')
+
+        id(2)
+        expect(resource.state()).toBe('refreshing')
+        // the old value is kept while refreshing
+        expect(resource.latest()).toBe('user 1')
+        requests[1].resolve('user 2')
+        await settled()
+        expect(resource.latest()).toBe('user 2')
+        dispose()
+    })
+
+    it('aborts superseded requests and drops their results', async () => {
+        const id = observable<number | null>(1),
+            { resource, requests, dispose } = user(id)
+        id(2)
+        expect(requests[0].signal.aborted).toBe(true)
+        requests[1].resolve('user 2')
+        requests[0].resolve('user 1')
+        await settled()
+        expect(resource.latest()).toBe('user 2')
+        dispose()
+        id(3)
+        expect(requests).toHaveLength(2)
+    })
+
+    it('skips fetching while the source is falsy', () => {
+        const id = observable<number | null>(null),
+            { resource, requests, dispose } = user(id)
+        expect(requests).toHaveLength(0)
+        expect(resource.state()).toBe('unresolved')
+        expect(resource.refetch()).toBeUndefined()
+        id(1)
+        expect(requests.map(request => request.id)).toEqual([1])
+        dispose()
+    })
+
+    it('refetches the current source value and reports errors', async () => {
+        const id = observable<number | null>(1),
+            { resource, requests, dispose } = user(id)
+        requests[0].resolve('user 1')
+        await settled()
+        resource.refetch()
+        expect(requests.map(request => request.id)).toEqual([1, 1])
+        requests[1].reject(new Error('failed'))
+        await settled()
+        expect(resource.state()).toBe('errored')
+        expect(resource.error()?.message).toBe('failed')
+        dispose()
+    })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ObserverNode, SnapshotData } from '../src'
+import { getOwner, label, observable, observer, restore, root, snapshot, store } from '../src'
+
+type Todo = { id: number; title: string }
+
+// The same tree, created again - i.e. after reload
+function session(run: (tree: ReturnType<typeof createTree>, owner: ObserverNode<any>) => void) {
+    root(dispose => {
+        run(createTree(), getOwner()!)
+        dispose()
+    })
+}
+
+function createTree() {
+    const count = observable(0),
+        [state, setState] = store({ todos: [] as Todo[], onSave: () => {} })
+    label('count', count)
+    label('state', state)
+    const read = vi.fn(() => count() + state.todos.length)
+    observer(read)
+    return { count, state, setState, read }
+}
+
+describe('snapshot', () => {
+    it('captures JSON-safe values of labeled sources', () => {
+        let data!: SnapshotData
+        session(({ count, setState }, owner) => {
+            count(2)
+            setState('todos', [{ id: 1, title: 'a' }])
+            data = snapshot(owner)
+        })
+        expect(data).toEqual({ count: 2, state: { todos: [{ id: 1, title: 'a' }] } })
+        expect(JSON.parse(JSON.stringify(data))).toEqual(data)
+    })
+
+    it('restores the values into the same tree in one batch', () => {
+        const data = { count: 3, state: { todos: [{ id: 7, title: 'b' }] } }
+        session(({ count, state, read }, owner) => {
+            restore(owner, data)
+            expect(count()).toBe(3)
+            expect(state.todos[0].title).toBe('b')
+            // fields dropped by JSON are kept
+            expect(state.onSave).toBeTypeOf('function')
+            // initial run and a single update
+            expect(read).toHaveBeenCalledTimes(2)
+        })
+    })
+
+    it('skips labels missing in the data', () => {
+        session(({ count }, owner) => {
+            restore(owner, { other: 1 })
+            expect(count()).toBe(0)
+        })
+    })
+
+    it('throws without an owner', () => {
+        expect(() => snapshot()).toThrow('Cannot snapshot graph without an owner')
+        expect(() => restore(null, {})).toThrow('Cannot restore graph without an owner')
+    })
+})
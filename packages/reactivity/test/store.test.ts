@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest'
+import { observer, produce, reconcile, root, store, unwrap } from '../src'
+
+type Todo = { id: number; title: string; done: boolean }
+
+const todos = (): { todos: Todo[]; filter: string } => ({
+    todos: [
+        { id: 1, title: 'a', done: false },
+        { id: 2, title: 'b', done: false }
+    ],
+    filter: 'all'
+})
+
+describe('store', () => {
+    it('re-runs only observers of the changed path', () => {
+        root(dispose => {
+            const [state, setState] = store(todos())
+            const done = vi.fn(() => state.todos[0].done),
+                title = vi.fn(() => state.todos[0].title)
+            observer(done)
+            observer(title)
+            setState('todos', 0, 'done', true)
+            expect(state.todos[0].done).toBe(true)
+            expect(done).toHaveBeenCalledTimes(2)
+            expect(title).toHaveBeenCalledTimes(1)
+            dispose()
+        })
+    })
+
+    it('sets by filter, key array and value mapper', () => {
+        const [state, setState] = store(todos())
+        setState('todos', (todo: Todo) => todo.id === 2, 'done', true)
+        setState('todos', [0, 1], 'title', title => title.toUpperCase())
+        expect(unwrap(state).todos).toEqual([
+            { id: 1, title: 'A', done: false },
+            { id: 2, title: 'B', done: true }
+        ])
+    })
+
+    it('merges objects shallowly and ignores direct writes', () => {
+        const [state, setState] = store(todos())
+        setState({ filter: 'done' })
+        expect(state.filter).toBe('done')
+        expect(state.todos.length).toBe(2)
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+        ;(state as { filter: string }).filter = 'ignored'
+        expect(state.filter).toBe('done')
+        expect(warn).toHaveBeenCalled()
+        warn.mockRestore()
+    })
+
+    it('applies batched mutations with produce', () => {
+        root(dispose => {
+            const [state, setState] = store(todos())
+            const ids = vi.fn(() => state.todos.map(todo => todo.id))
+            observer(ids)
+            setState(
+                'todos',
+                produce(list => {
+                    list.push({ id: 3, title: 'c', done: false })
+                    list.splice(0, 1)
+                })
+            )
+            expect(state.todos.map(todo => todo.id)).toEqual([2, 3])
+            // both mutations are flushed in one update
+            expect(ids).toHaveBeenCalledTimes(2)
+            dispose()
+        })
+    })
+
+    it('reconciles keeping proxies of matched items', () => {
+        const [state, setState] = store(todos())
+        const second = state.todos[1]
+        setState(
+            'todos',
+            reconcile([
+                { id: 2, title: 'b', done: true },
+                { id: 4, title: 'd', done: false }
+            ])
+        )
+        expect(state.todos[0]).toBe(second)
+        expect(second.done).toBe(true)
+        expect(state.todos[1].id).toBe(4)
+    })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { SuspenseListOptions } from '../src'
+import { createSuspense, createSuspenseList, root, suspend } from '../src'
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+// Boundary suspended until its promise is resolved
+function boundary(name: string) {
+    let resolve!: () => void,
+        ready = false
+    const promise = new Promise<void>(res => (resolve = res)).then(() => {
+        ready = true
+        return name
+    })
+    const view = () =>
+        createSuspense(
+            () => (ready ? name : suspend(promise)),
+            () => `(${name})`
+        )
+    return { view, resolve }
+}
+
+function list(options?: SuspenseListOptions) {
+    const boundaries = ['a', 'b', 'c'].map(boundary)
+    let views!: () => (string | undefined)[]
+    const dispose = root(dispose => {
+        const list = createSuspenseList(() => boundaries.map(item => item.view()), options)
+        views = () => list().map(view => view())
+        return dispose
+    })
+    return { boundaries, views, dispose }
+}
+
+describe('createSuspenseList', () => {
+    it('reveals boundaries forwards by default', async () => {
+        const { boundaries, views, dispose } = list()
+        expect(views()).toEqual(['(a)', '(b)', '(c)'])
+        boundaries[1].resolve()
+        await settled()
+        expect(views()).toEqual(['(a)', '(b)', '(c)'])
+        boundaries[0].resolve()
+        await settled()
+        expect(views()).toEqual(['a', 'b', '(c)'])
+        dispose()
+    })
+
+    it('reveals boundaries backwards', async () => {
+        const { boundaries, views, dispose } = list({ revealOrder: 'backwards' })
+        boundaries[0].resolve()
+        await settled()
+        expect(views()).toEqual(['(a)', '(b)', '(c)'])
+        boundaries[2].resolve()
+        await settled()
+        expect(views()).toEqual(['(a)', '(b)', 'c'])
+        boundaries[1].resolve()
+        await settled()
+        expect(views()).toEqual(['a', 'b', 'c'])
+        dispose()
+    })
+
+    it('reveals boundaries together', async () => {
+        const { boundaries, views, dispose } = list({ revealOrder: 'together' })
+        boundaries[0].resolve()
+        boundaries[2].resolve()
+        await settled()
+        expect(views()).toEqual(['(a)', '(b)', '(c)'])
+        boundaries[1].resolve()
+        await settled()
+        expect(views()).toEqual(['a', 'b', 'c'])
+        dispose()
+    })
+
+    it('limits rendered fallbacks by tail', async () => {
+        const collapsed = list({ tail: 'collapsed' })
+        expect(collapsed.views()).toEqual(['(a)', undefined, undefined])
+        collapsed.boundaries[0].resolve()
+        await settled()
+        expect(collapsed.views()).toEqual(['a', '(b)', undefined])
+        collapsed.dispose()
+
+        const hidden = list({ tail: 'hidden' })
+        expect(hidden.views()).toEqual([undefined, undefined, undefined])
+        hidden.dispose()
+    })
+})
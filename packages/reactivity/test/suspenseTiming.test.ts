@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { SuspenseOptions } from '../src'
+import { createSuspense, observable, root, suspend } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+// Boundary rendering the page, suspended until the page is loaded
+function pages(options: SuspenseOptions) {
+    const loaded = new Map<number, () => void>(),
+        ready = new Set<number>(),
+        page = observable(1)
+    const load = (id: number): string => {
+        if (ready.has(id)) return `page ${id}`
+        return suspend(
+            new Promise<string>(resolve => loaded.set(id, () => resolve(`page ${id}`))).then(value => {
+                ready.add(id)
+                return value
+            })
+        )
+    }
+    let view!: () => string | undefined
+    const dispose = root(dispose => {
+        view = createSuspense<string | undefined, never>(() => load(page()), () => 'loading', options)
+        return dispose
+    })
+    const resolve = async (id: number) => {
+        loaded.get(id)!()
+        await settled()
+    }
+    return { page, view, resolve, dispose }
+}
+
+describe('suspense timing', () => {
+    const host = useVirtualHost()
+
+    it('keeps previous content until the delay elapses', async () => {
+        const { page, view, resolve, dispose } = pages({ delay: 100 })
+        expect(view()).toBeUndefined()
+        host().advanceBy(100)
+        expect(view()).toBe('loading')
+        await resolve(1)
+        expect(view()).toBe('page 1')
+
+        page(2)
+        expect(view()).toBe('page 1')
+        host().advanceBy(50)
+        // fast response doesn't flash the fallback
+        await resolve(2)
+        expect(view()).toBe('page 2')
+        host().advanceBy(100)
+        expect(view()).toBe('page 2')
+        dispose()
+    })
+
+    it('keeps the shown fallback for its min duration', async () => {
+        const { view, resolve, dispose } = pages({ minDuration: 200 })
+        expect(view()).toBe('loading')
+        host().advanceBy(50)
+        await resolve(1)
+        expect(view()).toBe('loading')
+        host().advanceBy(149)
+        expect(view()).toBe('loading')
+        host().advanceBy(1)
+        expect(view()).toBe('page 1')
+        dispose()
+    })
+})
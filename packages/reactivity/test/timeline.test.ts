@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { delayed, interval, observable, observer, root, setTimelineWindow } from '../src'
+import { useVirtualHost } from './virtualHost'
+
+describe('timeline', () => {
+    const host = useVirtualHost()
+    let previousWindow: number
+
+    beforeEach(() => {
+        previousWindow = setTimelineWindow(1)
+    })
+    afterEach(() => {
+        setTimelineWindow(previousWindow)
+    })
+
+    it('runs timers scheduled out of order by their due time', () => {
+        const log: number[] = [],
+            delays = [50, 10, 40, 20, 30, 10]
+        delays.forEach(delay => delayed(delay, () => log.push(delay)))
+        host().advanceBy(25)
+        expect(log).toEqual([10, 10, 20])
+        host().advanceBy(25)
+        expect(log).toEqual([10, 10, 20, 30, 40, 50])
+    })
+
+    it('skips cancelled timers', () => {
+        const log: number[] = []
+        const cancel = delayed(10, () => log.push(1))
+        delayed(10, () => log.push(2))
+        cancel()
+        host().advanceBy(10)
+        expect(log).toEqual([2])
+    })
+
+    it('keeps hundreds of intervals in order', () => {
+        let ticks = 0
+        const disposes = Array.from({ length: 300 }, (_, i) => interval(10 + (i % 7), () => ticks++))
+        host().advanceBy(100)
+        const expected = Array.from({ length: 300 }, (_, i) => Math.floor(100 / (10 + (i % 7)))).reduce((a, b) => a + b)
+        expect(ticks).toBe(expected)
+        disposes.forEach(dispose => dispose())
+        host().advanceBy(100)
+        expect(ticks).toBe(expected)
+    })
+
+    it('coalesces timers due in the same window into one batch', () => {
+        setTimelineWindow(16)
+        const a = observable(0),
+            b = observable(0),
+            runs: number[] = []
+        const dispose = root(dispose => {
+            observer(() => runs.push(a() + b()))
+            return dispose
+        })
+        delayed(3, () => a(1))
+        delayed(9, () => b(2))
+        host().advanceBy(15)
+        expect(runs).toEqual([0])
+        host().advanceBy(1)
+        // timers never run earlier, and both writes are rendered at once
+        expect(runs).toEqual([0, 3])
+        dispose()
+    })
+})
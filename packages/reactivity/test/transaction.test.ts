@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import type { TransactionState } from '../src'
+import { observable, observer, pipeline, root, transaction } from '../src'
+import { flush, useVirtualHost } from './virtualHost'
+
+describe('transaction', () => {
+    const host = useVirtualHost()
+
+    it('rolls back all written observables in one update', async () => {
+        const a = observable(1),
+            b = observable('a'),
+            runs: string[] = []
+        const dispose = root(dispose => {
+            observer(() => runs.push(`${a()}${b()}`))
+            return dispose
+        })
+        const written = transaction(() => {
+            a(2)
+            a(3)
+            b('b')
+            return 'result'
+        })
+        expect(written.result).toBe('result')
+        expect(written.state).toBe('pending')
+        expect(runs).toEqual(['1a', '3b'])
+        written.rollback()
+        expect(runs).toEqual(['1a', '3b', '1a'])
+        expect(written.state).toBe('rolledBack')
+        expect(await written.done).toBe('rolledBack')
+        dispose()
+    })
+
+    it('keeps committed values and ignores calls on settled transaction', async () => {
+        const value = observable(1)
+        const written = transaction(() => value(2))
+        written.commit()
+        written.rollback()
+        expect(value()).toBe(2)
+        expect(await written.done).toBe('committed')
+    })
+
+    it('rolls back and re-throws, when the function throws', () => {
+        const value = observable(1)
+        expect(() =>
+            transaction(() => {
+                value(2)
+                throw new Error('failed')
+            })
+        ).toThrow('failed')
+        expect(value()).toBe(1)
+    })
+
+    it('rolls back only inner writes of nested transaction', () => {
+        const outer = observable('outer'),
+            inner = observable('inner')
+        let nested!: ReturnType<typeof transaction>
+        const parent = transaction(() => {
+            outer('outer 2')
+            nested = transaction(() => inner('inner 2'))
+        })
+        nested.rollback()
+        expect([outer(), inner()]).toEqual(['outer 2', 'inner'])
+        inner('inner 3')
+        parent.rollback()
+        expect([outer(), inner()]).toEqual(['outer', 'inner'])
+    })
+
+    it('is committed, when its pipelines are completed', async () => {
+        const value = observable(1),
+            states: TransactionState[] = []
+        const written = transaction(() => {
+            value(2)
+            pipeline
+                .from('asap')
+                .step(() => Promise.resolve(3))
+                .step(saved => value(saved))
+                .run()
+        })
+        written.done.then(state => states.push(state))
+        await flush(host())
+        expect(value()).toBe(3)
+        expect(states).toEqual(['committed'])
+    })
+
+    it('rolls back, before the failed step error is caught', async () => {
+        const value = observable(1),
+            caught: number[] = []
+        const written = transaction(() => {
+            value(2)
+            pipeline
+                .from('asap')
+                .step(() => {
+                    value(3)
+                    return Promise.reject(new Error('failed'))
+                })
+                .catch(() => caught.push(value()))
+                .run()
+        })
+        await flush(host())
+        expect(caught).toEqual([1])
+        expect(await written.done).toBe('rolledBack')
+    })
+})
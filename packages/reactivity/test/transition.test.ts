@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { createSuspense, isPending, observable, root, suspend, transition } from '../src'
+
+type Deferred = { promise: Promise<string>; resolve: (value: string) => void; value: string | null }
+
+// Suspending loader - resolved values are read without suspending again
+function loader() {
+    const requests = new Map<number, Deferred>()
+    const request = (id: number): Deferred => {
+        let deferred = requests.get(id)
+        if (!deferred) {
+            let resolve!: (value: string) => void
+            const created: Deferred = {
+                promise: new Promise<string>(res => (resolve = res)).then(value => (created.value = value)),
+                resolve: value => resolve(value),
+                value: null
+            }
+            requests.set(id, (deferred = created))
+        }
+        return deferred
+    }
+    return {
+        load: (id: number): string => {
+            const deferred = request(id)
+            return deferred.value !== null ? deferred.value : suspend(deferred.promise)
+        },
+        resolve: (id: number) => request(id).resolve(`user ${id}`)
+    }
+}
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+function profile() {
+    const { load, resolve } = loader(),
+        userId = observable(1)
+    let view!: () => string
+    const dispose = root(dispose => {
+        view = createSuspense(() => load(userId()), () => 'loading')
+        return dispose
+    })
+    return { userId, view, resolve, dispose }
+}
+
+describe('transition', () => {
+    it('keeps committed content until the suspension settles', async () => {
+        const { userId, view, resolve, dispose } = profile()
+        expect(view()).toBe('loading')
+        resolve(1)
+        await settled()
+        expect(view()).toBe('user 1')
+
+        let committed = false
+        transition(() => userId(2)).then(() => (committed = true))
+        expect(view()).toBe('user 1')
+        expect(isPending()).toBe(true)
+
+        resolve(2)
+        await settled()
+        expect(committed).toBe(true)
+        expect(isPending()).toBe(false)
+        expect(view()).toBe('user 2')
+        dispose()
+    })
+
+    it('shows fallback without a transition', async () => {
+        const { userId, view, resolve, dispose } = profile()
+        resolve(1)
+        await settled()
+        userId(2)
+        expect(view()).toBe('loading')
+        dispose()
+    })
+
+    it('supersedes the pending transition', async () => {
+        const { userId, view, resolve, dispose } = profile()
+        resolve(1)
+        await settled()
+
+        const log: string[] = []
+        transition(() => userId(2)).then(() => log.push('first'))
+        transition(() => userId(3)).then(() => log.push('second'))
+        expect(view()).toBe('user 1')
+
+        // superseded transition isn't committed by its own suspension
+        resolve(2)
+        await settled()
+        expect(log).toEqual([])
+        expect(view()).toBe('user 1')
+
+        resolve(3)
+        await settled()
+        expect(log.sort()).toEqual(['first', 'second'])
+        expect(isPending()).toBe(false)
+        expect(view()).toBe('user 3')
+        dispose()
+    })
+
+    it("waits for held suspensions, when the superseding transition doesn't suspend", async () => {
+        const { userId, view, resolve, dispose } = profile(),
+            other = observable(0)
+        resolve(1)
+        await settled()
+
+        const log: string[] = []
+        transition(() => userId(2)).then(() => log.push('first'))
+        transition(() => other(1)).then(() => log.push('second'))
+        await settled()
+        expect(log).toEqual([])
+        expect(isPending()).toBe(true)
+        expect(view()).toBe('user 1')
+
+        resolve(2)
+        await settled()
+        expect(log.sort()).toEqual(['first', 'second'])
+        expect(isPending()).toBe(false)
+        expect(view()).toBe('user 2')
+        dispose()
+    })
+})
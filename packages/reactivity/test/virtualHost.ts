@@ -0,0 +1,33 @@
+import { afterEach, beforeEach } from 'vitest'
+import type { AsynxHost, VirtualHost } from '../src'
+import { createVirtualHost, setAsynxHost } from '../src'
+
+/**
+ * Run every test of the suite on a new virtual host - the previous host is set back after the test
+ * @returns getter of the current test host
+ */
+export function useVirtualHost(): () => VirtualHost {
+    let host: VirtualHost, previous: AsynxHost
+
+    beforeEach(() => {
+        host = createVirtualHost()
+        previous = setAsynxHost(host)
+    })
+    afterEach(() => {
+        setAsynxHost(previous)
+    })
+
+    return () => host
+}
+
+/**
+ * Settle resolved promises and run AsynX ticks resumed by them - repeated, so chained
+ * pipeline steps and cached requests are settled too
+ * @param host - virtual host of the test
+ */
+export async function flush(host: VirtualHost): Promise<void> {
+    for (let i = 0; i < 10; i++) {
+        host.flushMicro()
+        await Promise.resolve()
+    }
+}
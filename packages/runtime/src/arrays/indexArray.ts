@@ -1,5 +1,5 @@
-import type { Readable, Observable, PoolItem } from '@x-rx/core'
-import { cleanup, root, untrack, observable, runAll } from '@x-rx/core'
+import { $TRACK, cleanup, observable, opsSince, root, untrack } from '@rxwp/reactivity'
+import type { ArrayOp, ArrayOpsCursor, Observable, PoolItem, Readable } from '@rxwp/reactivity'
 
 import { DEFAULT_POOL_LIMIT, FALLBACK } from './constants'
 
@@ -33,6 +33,8 @@ export interface IndexArrayOptions<T, R> {
  *  compatible object as `pool` prop - for indexArray it's object compatible with
  *  `Map<number, PoolItem<T, R>>`. Then, when in example it will have too many items,
  *  it can be explicitly disposed using its reference.
+ * - when list is reactive array, only the range of indexes touched by recorded
+ *  operations is checked
  *
  * @param list readable observable of array to map
  * @param mapFn function to apply on every added item
@@ -53,10 +55,11 @@ export function indexArray<T, R>(
     poolItem: PoolItem<T, R> | undefined
   const pool: Map<number, PoolItem<T, R>> | null =
       options.pool === true ? new Map() : options.pool || null,
-    poolLimit = pool !== null && (options.poolLimit || DEFAULT_POOL_LIMIT)
+    poolLimit = pool !== null && (options.poolLimit || DEFAULT_POOL_LIMIT),
+    cursor: ArrayOpsCursor = { log: null, version: 0 }
 
   cleanup(() => {
-    runAll(disposers)
+    disposers.forEach(dispose => dispose())
     if (pool !== null) {
       for (const item of pool.values()) item.disposer()
       pool.clear()
@@ -64,14 +67,17 @@ export function indexArray<T, R>(
   })
   return () => {
     const newItems = list() || []
+    // track items of store arrays - they're mutated in place, so reading the list isn't enough
+    ;(newItems as any)[$TRACK]
 
     return untrack(() => {
+      const ops = opsSince(newItems, cursor)
       if (newItems.length === 0) {
         // Remove fast path
         if (len !== 0) {
           if (pool !== null) {
             for (i = 0; i < len; ++i) saveInPool()
-          } else runAll(disposers)
+          } else disposers.forEach(dispose => dispose())
           disposers = []
           items = []
           mapped = []
@@ -99,8 +105,10 @@ export function indexArray<T, R>(
       }
 
       // Iterate new items and check if item on current index in old items is the
-      // same as new item
-      for (i = 0; i < newItems.length; i++) {
+      // same as new item - only in range touched by recorded operations, if available
+      const ranged = ops !== null && len > 0,
+        [start, end] = ranged ? touchedRange(ops!, newItems.length) : [0, newItems.length]
+      for (i = start; i < end; i++) {
         if (i < items.length && items[i] !== newItems[i]) {
           // If not, update its observable
           sources[i](() => newItems[i])
@@ -111,13 +119,16 @@ export function indexArray<T, R>(
         }
       }
       // If old items are longer than new, remove excessive items or save them in pool
-      for (; i < items.length; i++) {
+      for (i = newItems.length; i < items.length; i++) {
         if (pool !== null) saveInPool()
         else disposers[i]()
       }
-      // Save new memoized items for next update
+      // Save new memoized items for next update - only the touched range is copied, when it's known
       len = sources.length = disposers.length = newItems.length
-      items = newItems.slice(0)
+      if (ranged) {
+        for (i = start; i < end; i++) items[i] = newItems[i]
+        items.length = len
+      } else items = newItems.slice(0)
       return (mapped = mapped.slice(0, len))
     })
     function mapper(disposer: () => void) {
@@ -141,3 +152,24 @@ export function indexArray<T, R>(
     }
   }
 }
+
+function touchedRange(ops: ArrayOp<unknown>[], length: number): [number, number] {
+  let start = length,
+    end = 0
+  for (let k = 0; k < ops.length; ++k) {
+    const op = ops[k]
+    if (op.type === 'move') {
+      start = Math.min(start, op.from, op.to)
+      end = Math.max(end, op.from + 1, op.to + 1)
+    } else if (op.type === 'set' || op.remove === op.items.length) {
+      const count = op.type === 'set' ? 1 : op.remove
+      start = Math.min(start, op.index)
+      end = Math.max(end, op.index + count)
+    } else {
+      // items after splice with different number of removed and added items are shifted
+      start = Math.min(start, op.index)
+      end = length
+    }
+  }
+  return [start, Math.min(end, length)]
+}
@@ -1,5 +1,5 @@
-import { Observable, PoolItem, Readable } from '@x-rx/core'
-import { cleanup, observable, root, untrack, runAll } from '@x-rx/core'
+import { $TRACK, cleanup, observable, opsSince, root, untrack } from '@rxwp/reactivity'
+import type { ArrayOp, ArrayOpsCursor, Observable, PoolItem, Readable } from '@rxwp/reactivity'
 
 import { FALLBACK, META } from './constants'
 
@@ -13,12 +13,27 @@ export interface PreAnalyzeMeta {
   removes: number
   replaceAll?: boolean
   noInserts?: boolean
+  ops?: MetaOp<any>[]
 }
 
+/**
+ * Operation passed in meta, for DOM patch - `set` operations are passed as single item splices
+ */
+export type MetaOp<T> = Exclude<ArrayOp<T>, { type: 'set' }>
+
 export type ArrayWithMeta<T> = Array<T> & {
   [K in typeof META]?: K extends typeof META ? PreAnalyzeMeta : never
 }
 
+/**
+ * Is Array With Meta
+ *
+ * Check if array was mapped by mapArray - its meta has mapped operations, when they're available
+ */
+export function isArrayWithMeta(value: unknown): value is ArrayWithMeta<unknown> {
+  return Array.isArray(value) && META in value
+}
+
 /**
  * Map Array (Keyed Array)
  *
@@ -41,6 +56,9 @@ export type ArrayWithMeta<T> = Array<T> & {
  *  for Keyed Arrays, so it's recommended to manually manage and cleanup pool
  * - pools can be explicitly managed, just by passing compatible object as `pool`
  *  option - for mapArray it has to be Map collection (`Map<T, PoolItem<T, R>>`).
+ * - when list is reactive array, operations recorded on it are applied directly,
+ *  without diffing - and mapped operations are passed in meta, for DOM reconcile.
+ *  When their result doesn't match the array, it's diffed from the applied state
  *
  * @param list readable observable of array to map
  * @param mapFn function to apply on every added item
@@ -58,9 +76,10 @@ export function mapArray<T, R>(
     len = 0,
     indexes: Observable<number>[] | null = mapFn.length > 1 ? [] : null,
     meta: PreAnalyzeMeta
+  const cursor: ArrayOpsCursor = { log: null, version: 0 }
   const pool: Map<T, PoolItem<T, R>> | undefined = options.pool === true ? new Map() : options.pool
   cleanup(() => {
-    runAll(disposers)
+    disposers.forEach(dispose => dispose())
     if (pool) {
       for (const item of pool.values()) item.disposer()
     }
@@ -68,10 +87,14 @@ export function mapArray<T, R>(
 
   return () => {
     const newItems = list() || []
+    // track items of store arrays - they're mutated in place, so reading the list isn't enough
+    ;(newItems as any)[$TRACK]
     let i: number, j: number
 
     return untrack(() => {
-      const newLen = newItems.length
+      const newLen = newItems.length,
+        oldLen = len,
+        ops = opsSince<T>(newItems, cursor)
       let newIndices: Map<T | typeof FALLBACK, number>,
         newIndicesNext: number[],
         temp: R[],
@@ -89,7 +112,7 @@ export function mapArray<T, R>(
         if (len !== 0) {
           if (pool) {
             for (i = 0; i < len; ++i) saveInPool()
-          } else runAll(disposers)
+          } else disposers.forEach(dispose => dispose())
           disposers = []
           items = []
           mapped = []
@@ -114,8 +137,10 @@ export function mapArray<T, R>(
           } else mapped[j] = root(mapper)
         }
         len = newLen
+      } else if (ops !== null && items[0] !== FALLBACK && applyOps(ops)) {
+        // C) Recorded operations - applied instead of diffing the array, when their result matches it
       } else {
-        // C) Keyed memo-map algorithm
+        // D) Keyed memo-map algorithm
         temp = new Array(newLen)
         tempDisposers = new Array(newLen)
         indexes && (tempIndexes = new Array(newLen))
@@ -232,7 +257,7 @@ export function mapArray<T, R>(
           }
         }
         meta.inserts === 0 && (meta.noInserts = true)
-        meta.removes === len && (meta.replaceAll = true)
+        meta.removes === oldLen && (meta.replaceAll = true)
         // 4. in case the new set is shorter than the old, set the length of the mapped array
         mapped = mapped.slice(0, (len = newLen))
         // 5. save a copy of the mapped items for the next update
@@ -242,6 +267,92 @@ export function mapArray<T, R>(
       return mapped
     })
 
+    /**
+     * Apply operations recorded on reactive array - when the log is out of sync with the array
+     * (i.e. it was written outside the log), it returns false and mapped items are diffed from
+     * the state after the applied operations
+     */
+    function applyOps(ops: ArrayOp<T>[]): boolean {
+      const patch: MetaOp<R>[] = []
+      let from = len,
+        valid = true,
+        poolItem: PoolItem<T, R> | undefined
+      for (let k = 0; k < ops.length; ++k) {
+        const op = ops[k]
+        if (op.type === 'move') {
+          if (op.from >= len || op.to >= len) {
+            valid = false
+            break
+          }
+          move(items, op.from, op.to)
+          move(mapped, op.from, op.to)
+          move(disposers, op.from, op.to)
+          indexes && move(indexes, op.from, op.to)
+          from = Math.min(from, op.from, op.to)
+          patch.push(op)
+          continue
+        }
+        const index = op.index,
+          remove = op.type === 'set' ? 1 : op.remove,
+          added = op.type === 'set' ? [op.item] : op.items,
+          addedMapped: R[] = new Array(added.length),
+          addedDisposers: (() => void)[] = new Array(added.length),
+          addedIndexes: Observable<number>[] = []
+        if (index + remove > len) {
+          valid = false
+          break
+        }
+        for (i = index; i < index + remove; ++i) {
+          if (pool) saveInPool()
+          else disposers[i]()
+          meta.removes++
+        }
+        for (j = 0; j < added.length; ++j) {
+          if (pool && (poolItem = pool.get(added[j]))) {
+            addedMapped[j] = poolItem.mapped
+            addedDisposers[j] = poolItem.disposer
+            indexes && (addedIndexes[j] = poolItem.index!)
+            pool.delete(added[j])
+          } else {
+            addedMapped[j] = root((disposer: () => void) => {
+              addedDisposers[j] = disposer
+              if (!indexes) return (mapFn as any)(added[j])
+              const s = (addedIndexes[j] = observable(index + j))
+              return mapFn(added[j], () => s())
+            })
+          }
+          meta.inserts++
+        }
+        items.splice(index, remove, ...added)
+        mapped.splice(index, remove, ...addedMapped)
+        disposers.splice(index, remove, ...addedDisposers)
+        indexes && indexes.splice(index, remove, ...addedIndexes)
+        len += added.length - remove
+        from = Math.min(from, index)
+        patch.push({ type: 'splice', index, remove, items: addedMapped })
+      }
+      // indexes of items after the first changed position are updated
+      if (indexes) {
+        for (j = from; j < len; ++j) indexes[j](j)
+      }
+      // the result is compared with the whole array, as writes outside the log could be anywhere -
+      // it's only identity check, mapping and DOM patch are still O(changes)
+      if (valid && len === newItems.length) {
+        for (j = 0; j < len; ++j) {
+          if (items[j] !== newItems[j]) {
+            valid = false
+            break
+          }
+        }
+      } else valid = false
+      if (!valid) return false
+      meta.inserts === 0 && (meta.noInserts = true)
+      meta.ops = patch
+      mapped = mapped.slice(0)
+      mapped[META] = meta
+      return true
+    }
+
     function mapper(disposer: () => void): R {
       disposers[j] = disposer
       if (indexes) {
@@ -261,6 +372,10 @@ export function mapArray<T, R>(
       return poolItem.mapped
     }
 
+    function move<V>(list: V[], from: number, to: number): void {
+      list.splice(to, 0, list.splice(from, 1)[0])
+    }
+
     function saveInPool() {
       const poolItem: PoolItem<T, R> = {
         mapped: mapped[i],
@@ -1,7 +1,7 @@
-import {createResource, memo, untrack} from '@rxwp/reactivity'
+import {createResource, memo, setResourceHydration, untrack} from '@rxwp/reactivity'
 
 import {JSX, Component, SplitProps, MergeProps} from './types'
-import {nextHydrateContext, setHydrateContext, sharedConfig} from './hydration'
+import {nextHydrateContext, readResource, setHydrateContext, sharedConfig} from './hydration'
 import { signal } from "@rxwp/reactivity"
 
 export const $PROXY = Symbol('rx-web/Proxy')
@@ -10,6 +10,12 @@ let hydrationEnabled = false
 
 export function enableHydration() {
     hydrationEnabled = true
+    // resources created in hydration context are keyed like components, so server and client keys match
+    setResourceHydration({
+        key: () => (sharedConfig.context ? createUniqueId() : undefined),
+        load: readResource,
+        register: <T>(id: string, request: Promise<T> | T) => sharedConfig.serialize && sharedConfig.serialize(id, request)
+    })
 }
 
 export function createComponent<T>(Comp: Component<T>, props: T): JSX.Element {
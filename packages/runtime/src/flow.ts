@@ -10,7 +10,11 @@ import {
   Equals,
   Observable,
   observer,
-  renderEffect
+  renderEffect,
+  errorBoundary,
+  createSuspenseList,
+  SuspenseRevealOrder,
+  SuspenseTail
 } from '@rxwp/reactivity'
 import { indexArray, mapArray, MapArrayOptions, IndexArrayOptions } from './arrays'
 
@@ -129,6 +133,31 @@ export function $match<T>(props: MatchProps<T>) {
   return props as unknown as JSX.Element
 }
 
+export interface CatchProps {
+  fallback: JSX.Element | ((err: Error, reset: () => void) => JSX.Element)
+  children: JSX.Element
+}
+
+export function $catch(props: CatchProps): Readable<JSX.Element> {
+  return errorBoundary(
+    () => props.children,
+    (err: Error, reset: () => void) => {
+      const f = props.fallback
+      return typeof f === 'function' ? f(err, reset) : f
+    }
+  )
+}
+
+export interface SuspenseListProps {
+  revealOrder?: SuspenseRevealOrder
+  tail?: SuspenseTail
+  children: JSX.Element
+}
+
+export function $suspenseList(props: SuspenseListProps): Readable<JSX.Element> {
+  return createSuspenseList(() => props.children, { revealOrder: props.revealOrder, tail: props.tail })
+}
+
 const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
 function createElement(tagName: string, isSVG = false): HTMLElement | SVGElement {
   return isSVG ? document.createElementNS(SVG_NAMESPACE, tagName) : document.createElement(tagName)
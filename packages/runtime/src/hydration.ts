@@ -1,9 +1,17 @@
+import type { HydratedResource } from '@rxwp/reactivity'
+
 export type HydrationContext = { id: string; count: number }
 
+/**
+ * Resource state in serialized payload - `v` is resolved value and `e` is error
+ */
+export type SerializedResource = { v?: unknown } | { e: { name: string; message: string } }
+
 export interface SharedConfig {
     context?: HydrationContext
     resources?: { [key: string]: any }
     load?: (id: string) => Promise<any> | any | undefined
+    serialize?: <T>(id: string, request: Promise<T> | T) => void
     gather?: (key: string) => void
     registry?: Map<string, Element>
     done?: boolean
@@ -23,3 +31,107 @@ export function nextHydrateContext(): HydrationContext | undefined {
         count: 0
     }
 }
+
+/**
+ * Resources Script
+ *
+ * Client bootstrap, that should be emitted before serialized resources - `_$HY.d(id)` is creating
+ * placeholder of streamed resource and `_$HY.s(id, state)` is resolving it
+ */
+export const RESOURCES_SCRIPT =
+    '(function(h){h=self._$HY||(self._$HY={events:[],completed:new WeakSet()});h.r=h.r||{};' +
+    'h.d=function(k){var f;h.r[k]=new Promise(function(r){f=r});h.r[k].f=f};' +
+    'h.s=function(k,v){var p=h.r[k];p&&p.f?p.f(v):(h.r[k]=v)}})();'
+
+let emitted = new Set<string>()
+
+/**
+ * Collect Resources
+ *
+ * Start collecting resources for server render - results of resources created in hydration
+ * context are registered in `sharedConfig.resources`, by their hydration keys
+ */
+export function collectResources(): void {
+    const resources: { [key: string]: SerializedResource | Promise<SerializedResource> } = {}
+    emitted = new Set()
+    sharedConfig.resources = resources
+    sharedConfig.serialize = (id, request) => {
+        resources[id] =
+            request instanceof Promise
+                ? request.then(
+                      v => (resources[id] = { v }),
+                      e => (resources[id] = { e: serializeError(e) })
+                  )
+                : { v: request }
+    }
+}
+
+/**
+ * Serialize Resources
+ *
+ * Server - get script assigning resources registered since the last call - resolved values and
+ * errors are emitted, pending resources are emitted as placeholders, resolved later by streamResources()
+ */
+export function serializeResources(): string {
+    const resources = sharedConfig.resources || {}
+    let script = ''
+    for (const id in resources) {
+        if (emitted.has(id)) continue
+        emitted.add(id)
+        const state = resources[id]
+        script +=
+            state instanceof Promise ? `_$HY.d(${stringify(id)});` : `_$HY.r[${stringify(id)}]=${stringify(state)};`
+    }
+    return script
+}
+
+/**
+ * Stream Resources
+ *
+ * Server - write script resolving every pending resource placeholder, when its request is settled
+ * @param write - called with script chunk of every settled resource
+ * @returns promise resolved, when all the pending resources are written
+ */
+export async function streamResources(write: (chunk: string) => void): Promise<void> {
+    const resources = sharedConfig.resources || {}
+    const streamed = new Set<string>()
+    for (;;) {
+        const pending: Promise<void>[] = []
+        for (const id in resources) {
+            const state = resources[id]
+            if (!emitted.has(id) || streamed.has(id) || !(state instanceof Promise)) continue
+            streamed.add(id)
+            pending.push(state.then(result => write(`_$HY.s(${stringify(id)},${stringify(result)});`)))
+        }
+        if (pending.length === 0) return
+        await Promise.all(pending)
+    }
+}
+
+/**
+ * Read Resource
+ *
+ * Client - read resource state serialized on server - from `sharedConfig.resources` or loaded
+ * with `sharedConfig.load`
+ */
+export function readResource<T>(id: string): HydratedResource<T> | Promise<HydratedResource<T>> | undefined {
+    const state = (sharedConfig.resources && sharedConfig.resources[id]) ?? (sharedConfig.load && sharedConfig.load(id))
+    if (state === undefined || state === null) return undefined
+    return typeof state.then === 'function'
+        ? Promise.resolve(state).then(state => deserializeResource<T>(state))
+        : deserializeResource(state)
+}
+
+function deserializeResource<T>(state: SerializedResource): HydratedResource<T> {
+    if ('e' in state) return { error: Object.assign(new Error(state.e.message), { name: state.e.name }) }
+    return { value: state.v as T }
+}
+
+function serializeError(e: unknown): { name: string; message: string } {
+    return e instanceof Error ? { name: e.name, message: e.message } : { name: 'Error', message: String(e) }
+}
+
+function stringify(value: unknown): string {
+    // payload is emitted in inline script, so it can't close the script tag
+    return JSON.stringify(value).replace(/</g, '\\u003c')
+}
@@ -1,7 +1,9 @@
 import {sharedConfig} from "./hydration";
 import {JSX} from "./JSX";
 import { renderEffect } from '@rxwp/reactivity';
-import reconcileArrays from '@rxwp/dom-reconcile';
+import reconcileArrays, { patch as patchArrays } from '@rxwp/dom-reconcile';
+import { META } from './arrays/constants';
+import { isArrayWithMeta } from './arrays/mapArray';
 
 export function insertExpression<T extends JSX.Element>(
     parent: Node,
@@ -64,8 +66,13 @@ export function insertExpression<T extends JSX.Element>(
             current = cleanChildren(parent, current as Node[], marker)
             if (multi) return current
         } else if (current && Array.isArray(current)) {
+            // apply operations recorded by mapArray for reactive arrays, or diff lists if not possible
+            const mapped: unknown = value,
+                ops = isArrayWithMeta(mapped) ? mapped[META]?.ops : undefined
             if (current.length === 0) appendNodes(parent, array, marker)
-            else reconcileArrays(parent, current as Node[], array)
+            else if (!ops || !patchArrays(parent, current as Node[], array, ops)) {
+                reconcileArrays(parent, current as Node[], array)
+            }
         } else {
             current && cleanChildren(parent)
             appendNodes(parent, array)
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import type { Readable } from '@rxwp/reactivity'
+import { cleanup, reactiveArray, root } from '@rxwp/reactivity'
+import { META } from '../src/arrays/constants'
+import { indexArray } from '../src/arrays/indexArray'
+import { mapArray } from '../src/arrays/mapArray'
+import type { ArrayWithMeta } from '../src/arrays/mapArray'
+
+type Row = { value: string; index: Readable<number> }
+
+describe('mapArray of reactive array', () => {
+    function rows(initial: string[], pool?: true) {
+        const list = reactiveArray(initial),
+            created: string[] = [],
+            disposed: string[] = []
+        const [mapped, dispose] = root(dispose => [
+            mapArray(
+                list,
+                (value: string, index: Readable<number>): Row => {
+                    created.push(value)
+                    cleanup(() => disposed.push(value))
+                    return { value, index }
+                },
+                { pool }
+            ),
+            dispose
+        ] as const)
+        const read = (): ArrayWithMeta<Row> => mapped()
+        read()
+        return { list, read, created, disposed, dispose }
+    }
+    const values = (mapped: Row[]) => mapped.map(row => row.value)
+    const indexes = (mapped: Row[]) => mapped.map(row => row.index())
+
+    it('applies recorded operations and passes them in meta', () => {
+        const { list, read, created, disposed, dispose } = rows(['a', 'b', 'c'])
+        const [a, b, c] = read()
+        list.push('d')
+        list.splice(0, 1)
+        list.move(0, 2)
+        list.set(0, 'x')
+        const mapped = read()
+        expect(values(mapped)).toEqual(['x', 'd', 'b'])
+        expect(created).toEqual(['a', 'b', 'c', 'd', 'x'])
+        expect(disposed).toEqual(['a', 'c'])
+        expect(mapped[2]).toBe(b)
+        expect(mapped[META]!.ops).toEqual([
+            { type: 'splice', index: 3, remove: 0, items: [mapped[1]] },
+            { type: 'splice', index: 0, remove: 1, items: [] },
+            { type: 'move', from: 0, to: 2 },
+            { type: 'splice', index: 0, remove: 1, items: [mapped[0]] }
+        ])
+        expect([a, c]).not.toContain(mapped[0])
+        dispose()
+    })
+
+    it('updates indexes of items after the changed position', () => {
+        const { list, read, dispose } = rows(['a', 'b', 'c', 'd'])
+        list.splice(1, 1)
+        expect(indexes(read())).toEqual([0, 1, 2])
+        list.move(2, 0)
+        expect(indexes(read())).toEqual([0, 1, 2])
+        expect(values(read())).toEqual(['d', 'a', 'c'])
+        dispose()
+    })
+
+    it('recycles removed items from pool', () => {
+        const { list, read, created, disposed, dispose } = rows(['a', 'b', 'c'], true)
+        const b = read()[1]
+        list.splice(1, 1)
+        read()
+        list.push('b')
+        const mapped = read()
+        expect(mapped[2]).toBe(b)
+        expect(b.index()).toBe(2)
+        expect(created).toEqual(['a', 'b', 'c'])
+        expect(disposed).toEqual([])
+        expect(mapped[META]!.ops).toEqual([{ type: 'splice', index: 2, remove: 0, items: [b] }])
+        dispose()
+    })
+
+    it('diffs the array, when it was written outside the log', () => {
+        const { list, read, created, dispose } = rows(['a', 'b', 'c'])
+        const [a, , c] = read()
+        // position that's neither touched by the recorded operation, nor the end of array
+        ;(list() as string[])[1] = 'z'
+        list.push('d')
+        const mapped = read()
+        expect(values(mapped)).toEqual(['a', 'z', 'c', 'd'])
+        expect(indexes(mapped)).toEqual([0, 1, 2, 3])
+        expect(mapped[META]!.ops).toBeUndefined()
+        expect([mapped[0], mapped[2]]).toEqual([a, c])
+        expect(created).toEqual(['a', 'b', 'c', 'd', 'z'])
+        dispose()
+    })
+
+    it('diffs the array from the applied state, when operations apply only partly', () => {
+        const { list, read, created, disposed, dispose } = rows(['a', 'b', 'c'])
+        const [, b, c] = read()
+        list.set(0, 'y')
+        ;(list() as string[]).push('x')
+        // moved item isn't in mapped items, so the operation can't be applied
+        list.move(3, 1)
+        const mapped = read()
+        expect(values(mapped)).toEqual(['y', 'x', 'b', 'c'])
+        expect(indexes(mapped)).toEqual([0, 1, 2, 3])
+        expect(mapped[META]!.ops).toBeUndefined()
+        expect([mapped[2], mapped[3]]).toEqual([b, c])
+        expect(created).toEqual(['a', 'b', 'c', 'y', 'x'])
+        expect(disposed).toEqual(['a'])
+        dispose()
+    })
+})
+
+describe('indexArray of reactive array', () => {
+    function rows(initial: string[]) {
+        const list = reactiveArray(initial),
+            disposed: number[] = []
+        const [mapped, dispose] = root(dispose => [
+            indexArray(list, (value: Readable<string>, index: number) => {
+                cleanup(() => disposed.push(index))
+                return value
+            }),
+            dispose
+        ] as const)
+        mapped()
+        return { list, read: () => mapped().map(value => value()), disposed, dispose }
+    }
+
+    it('checks only the range touched by recorded operations', () => {
+        const { list, read, dispose } = rows(['a', 'b', 'c'])
+        // write outside the log isn't checked, as it's out of the touched range
+        ;(list() as string[])[0] = 'q'
+        list.set(2, 'z')
+        expect(read()).toEqual(['a', 'b', 'z'])
+        dispose()
+    })
+
+    it('updates items shifted by splice and removes excessive ones', () => {
+        const { list, read, disposed, dispose } = rows(['a', 'b', 'c', 'd'])
+        list.splice(1, 1)
+        expect(read()).toEqual(['a', 'c', 'd'])
+        expect(disposed).toEqual([3])
+        list.splice(1, 0, 'e', 'f')
+        expect(read()).toEqual(['a', 'e', 'f', 'c', 'd'])
+        list.move(4, 0)
+        expect(read()).toEqual(['d', 'a', 'e', 'f', 'c'])
+        dispose()
+    })
+})
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createResource, observable, root, setResourceHydration } from '@rxwp/reactivity'
+import { enableHydration } from '../src/component'
+import {
+    collectResources,
+    readResource,
+    RESOURCES_SCRIPT,
+    serializeResources,
+    setHydrateContext,
+    sharedConfig,
+    streamResources
+} from '../src/hydration'
+
+const settled = () => new Promise(resolve => setTimeout(resolve))
+
+// resources are created in hydration context of the page, so they're keyed "0", "1", ...
+function render(...fetchers: (() => Promise<string>)[]) {
+    enableHydration()
+    setHydrateContext({ id: '', count: 0 })
+    const [resources, dispose] = root(dispose => [
+        fetchers.map(fetcher => createResource(observable(1), fetcher)),
+        dispose
+    ] as const)
+    setHydrateContext()
+    return { resources, dispose }
+}
+
+// client page - server scripts are run with the hydration global created by bootstrap script
+function page() {
+    const self: { _$HY?: { r: Record<string, any> } } = {}
+    new Function('self', RESOURCES_SCRIPT)(self)
+    return { run: (script: string) => new Function('_$HY', script)(self._$HY), resources: self._$HY!.r }
+}
+
+describe('resource hydration', () => {
+    afterEach(() => {
+        setResourceHydration(null)
+        for (const key in sharedConfig) delete sharedConfig[key as keyof typeof sharedConfig]
+    })
+
+    it('serializes resolved resources and placeholders of pending ones', async () => {
+        collectResources()
+        const { dispose } = render(
+            () => Promise.resolve('</script>'),
+            () => new Promise<string>(() => {})
+        )
+        await settled()
+        expect(serializeResources()).toBe('_$HY.r["0"]={"v":"\\u003c/script>"};_$HY.d("1");')
+        // resources are emitted only once
+        expect(serializeResources()).toBe('')
+        dispose()
+    })
+
+    it('streams pending resources, when they are settled', async () => {
+        collectResources()
+        let resolve!: (value: string) => void, reject!: (error: Error) => void
+        const { dispose } = render(
+            () => new Promise<string>(res => (resolve = res)),
+            () => new Promise<string>((_, rej) => (reject = rej))
+        )
+        const script = serializeResources(),
+            chunks: string[] = [],
+            streamed = streamResources(chunk => chunks.push(chunk))
+        resolve('user')
+        reject(new TypeError('down'))
+        await streamed
+        expect(script).toBe('_$HY.d("0");_$HY.d("1");')
+        expect(chunks.sort()).toEqual([
+            '_$HY.s("0",{"v":"user"});',
+            '_$HY.s("1",{"e":{"name":"TypeError","message":"down"}});'
+        ])
+        dispose()
+    })
+
+    it('reads serialized and streamed resources on client', async () => {
+        const client = page()
+        client.run('_$HY.r["0"]={"v":"\\u003cb>"};_$HY.d("1");')
+        sharedConfig.resources = client.resources
+        const streamed = readResource<string>('1')
+        expect(readResource('0')).toEqual({ value: '<b>' })
+        expect(streamed).toBeInstanceOf(Promise)
+        client.run('_$HY.s("1",{"e":{"name":"TypeError","message":"down"}});')
+        const { error } = (await streamed) as { error: Error }
+        expect([error.name, error.message]).toEqual(['TypeError', 'down'])
+        expect(readResource('2')).toBeUndefined()
+    })
+
+    it('loads resources missing in serialized payload', () => {
+        sharedConfig.resources = {}
+        sharedConfig.load = id => (id === '0' ? { v: 'loaded' } : undefined)
+        expect(readResource('0')).toEqual({ value: 'loaded' })
+        expect(readResource('1')).toBeUndefined()
+    })
+
+    it('restores resources rendered on server without fetching them', () => {
+        const client = page()
+        client.run('_$HY.r["0"]={"v":"server user"};')
+        sharedConfig.resources = client.resources
+        const fetchUser = vi.fn(() => Promise.resolve('client user')),
+            { resources, dispose } = render(fetchUser)
+        expect(resources[0].latest()).toBe('server user')
+        expect(fetchUser).not.toHaveBeenCalled()
+        dispose()
+    })
+})
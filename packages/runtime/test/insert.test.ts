@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest'
+import { reactiveArray, root } from '@rxwp/reactivity'
+import { patch } from '@rxwp/dom-reconcile'
+import { mapArray } from '../src/arrays/mapArray'
+import { insertExpression } from '../src/insert'
+
+const item = (text: string) => {
+    const node = document.createElement('li')
+    node.textContent = text
+    return node
+}
+const texts = (parent: Node) => [...parent.childNodes].map(node => node.textContent)
+
+describe('DOM patch', () => {
+    it('applies operations to DOM nodes before the next sibling of the list', () => {
+        const parent = document.createElement('ul'),
+            [a, b, c, d, after] = ['a', 'b', 'c', 'd', 'after'].map(item)
+        parent.append(a, b, c, after)
+        const patched = patch(
+            parent,
+            [a, b, c],
+            [c, d, a],
+            [
+                { type: 'splice', index: 1, remove: 1, items: [] },
+                { type: 'move', from: 1, to: 0 },
+                { type: 'splice', index: 2, remove: 0, items: [d] },
+                { type: 'move', from: 2, to: 1 }
+            ]
+        )
+        expect(patched).toBe(true)
+        expect(texts(parent)).toEqual(['c', 'd', 'a', 'after'])
+        expect(b.parentNode).toBeNull()
+    })
+
+    it("doesn't touch DOM, when operations don't result in the next list", () => {
+        const parent = document.createElement('ul'),
+            [a, b, c] = ['a', 'b', 'c'].map(item)
+        parent.append(a, b)
+        expect(patch(parent, [a, b], [a, c, b], [{ type: 'splice', index: 2, remove: 0, items: [c] }])).toBe(false)
+        expect(texts(parent)).toEqual(['a', 'b'])
+    })
+})
+
+describe('insertExpression of mapped reactive array', () => {
+    function list(initial: string[]) {
+        const parent = document.createElement('ul'),
+            items = reactiveArray(initial),
+            dispose = root(dispose => {
+                insertExpression(parent, mapArray(items, item))
+                return dispose
+            })
+        return { parent, items, dispose }
+    }
+
+    it('patches DOM with recorded operations', () => {
+        const { parent, items, dispose } = list(['a', 'b', 'c'])
+        const [a, b, c] = parent.childNodes
+        const insertBefore = vi.spyOn(parent, 'insertBefore'),
+            removeChild = vi.spyOn(parent, 'removeChild')
+        items.move(2, 0)
+        expect(texts(parent)).toEqual(['c', 'a', 'b'])
+        items.splice(1, 1, 'd')
+        expect(texts(parent)).toEqual(['c', 'd', 'b'])
+        expect([parent.childNodes[0], parent.childNodes[2]]).toEqual([c, b])
+        expect(a.parentNode).toBeNull()
+        // one move, one removed and one inserted node
+        expect(insertBefore).toHaveBeenCalledTimes(2)
+        expect(removeChild).toHaveBeenCalledTimes(1)
+        dispose()
+    })
+
+    it('reconciles DOM, when the array was written outside the log', () => {
+        const { parent, items, dispose } = list(['a', 'b', 'c'])
+        const [a, , c] = parent.childNodes
+        ;(items() as string[])[1] = 'z'
+        items.push('d')
+        expect(texts(parent)).toEqual(['a', 'z', 'c', 'd'])
+        expect([parent.childNodes[0], parent.childNodes[2]]).toEqual([a, c])
+        dispose()
+    })
+})
@@ -0,0 +1,12 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+// workspace packages are tested from their sources, as their builds point to dist
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@rxwp/reactivity': fileURLToPath(new URL('../reactivity/src/index.ts', import.meta.url)),
+            '@rxwp/dom-reconcile': fileURLToPath(new URL('../dom-reconcile/src/src/index.ts', import.meta.url))
+        }
+    }
+})